@@ -1,36 +1,67 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { queryClient } from "./lib/queries";
 import { AuthProvider } from "./contexts/AuthContext";
+import { RealtimeProvider } from "./contexts/RealtimeContext";
 import { LocationProvider } from "./contexts/LocationContext";
+import { ReportQueueProvider } from "./contexts/ReportQueueContext";
+import { AlertInboxProvider } from "./contexts/AlertInboxContext";
+import { PreferencesProvider } from "./contexts/PreferencesContext";
+import ProtectedRoute from "./components/ProtectedRoute";
+import GuestRoute from "./components/GuestRoute";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
 import Dashboard from "./pages/Dashboard";
+import HazardDetail from "./pages/HazardDetail";
+import Moderation from "./pages/Moderation";
+import Analytics from "./pages/Analytics";
+import BulkImport from "./pages/BulkImport";
+import Zones from "./pages/Zones";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
-
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <LocationProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <Routes>
-              <Route path="/" element={<Navigate to="/login" replace />} />
-              <Route path="/login" element={<Login />} />
-              <Route path="/signup" element={<Signup />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
-        </TooltipProvider>
-      </LocationProvider>
+      <RealtimeProvider>
+        <LocationProvider>
+          <ReportQueueProvider>
+            <AlertInboxProvider>
+              <PreferencesProvider>
+                <TooltipProvider>
+                  <Toaster />
+                  <Sonner />
+                  <BrowserRouter>
+                    <Routes>
+                      <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                      <Route element={<GuestRoute />}>
+                        <Route path="/login" element={<Login />} />
+                        <Route path="/signup" element={<Signup />} />
+                      </Route>
+                      <Route element={<ProtectedRoute />}>
+                        <Route path="/dashboard" element={<Dashboard />} />
+                        <Route path="/hazards/:id" element={<HazardDetail />} />
+                        <Route path="/zones" element={<Zones />} />
+                      </Route>
+                      <Route element={<ProtectedRoute role="moderator" />}>
+                        <Route path="/moderation" element={<Moderation />} />
+                      </Route>
+                      <Route element={<ProtectedRoute role="admin" />}>
+                        <Route path="/analytics" element={<Analytics />} />
+                        <Route path="/admin/import" element={<BulkImport />} />
+                      </Route>
+                      {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                      <Route path="*" element={<NotFound />} />
+                    </Routes>
+                  </BrowserRouter>
+                </TooltipProvider>
+              </PreferencesProvider>
+            </AlertInboxProvider>
+          </ReportQueueProvider>
+        </LocationProvider>
+      </RealtimeProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
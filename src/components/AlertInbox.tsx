@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { InboxAlert } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Drawer,
+  DrawerContent,
+  DrawerDescription,
+  DrawerHeader,
+  DrawerTitle,
+  DrawerTrigger,
+} from '@/components/ui/drawer';
+import { AlertTriangle, Bell, CheckCheck, MapPin } from 'lucide-react';
+import { useAlertInbox } from '@/contexts/AlertInboxContext';
+
+interface AlertInboxProps {
+  onShowOnMap: (alert: InboxAlert) => void;
+}
+
+const AlertInbox = ({ onShowOnMap }: AlertInboxProps) => {
+  const [open, setOpen] = useState(false);
+  const { alerts, unreadCount, markRead, markAllRead } = useAlertInbox();
+
+  const showOnMap = (alert: InboxAlert) => {
+    markRead([alert.id]);
+    setOpen(false);
+    onShowOnMap(alert);
+  };
+
+  return (
+    <Drawer open={open} onOpenChange={setOpen}>
+      <DrawerTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" title="Alerts">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-critical text-white text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DrawerTrigger>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-2xl">
+          <DrawerHeader className="flex items-center justify-between gap-4">
+            <div>
+              <DrawerTitle>Alerts</DrawerTitle>
+              <DrawerDescription>
+                {unreadCount > 0 ? `${unreadCount} unread` : 'You are all caught up'}
+              </DrawerDescription>
+            </div>
+            <Button variant="ghost" size="sm" disabled={unreadCount === 0} onClick={markAllRead}>
+              <CheckCheck className="h-4 w-4 mr-2" />
+              Mark all read
+            </Button>
+          </DrawerHeader>
+          <ScrollArea className="h-[60vh] px-4 pb-4">
+            {alerts.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">No alerts received yet</p>
+            ) : (
+              <div className="space-y-2">
+                {alerts.map((alert) => (
+                  <div
+                    key={alert.id}
+                    onClick={() => !alert.read_at && markRead([alert.id])}
+                    className={`rounded-lg border p-3 flex items-start gap-3 ${
+                      alert.read_at ? 'opacity-70' : 'border-l-4 border-l-critical bg-critical/5 cursor-pointer'
+                    }`}
+                  >
+                    <AlertTriangle
+                      className={`h-4 w-4 mt-0.5 flex-shrink-0 ${alert.read_at ? 'text-muted-foreground' : 'text-critical'}`}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className={`capitalize ${alert.read_at ? '' : 'font-semibold'}`}>{alert.type}</p>
+                      <p className="text-sm text-foreground">{alert.description}</p>
+                      {alert.zones && alert.zones.length > 0 && (
+                        <p className="text-xs font-medium text-foreground">In {alert.zones.join(', ')}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {alert.confidence}% confidence • {new Date(alert.received_at).toLocaleString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="flex-shrink-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        showOnMap(alert);
+                      }}
+                    >
+                      <MapPin className="h-4 w-4 mr-1" />
+                      Map
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+};
+
+export default AlertInbox;
@@ -1,17 +1,27 @@
 import { useEffect, useState } from 'react';
 import { Card } from '@/components/ui/card';
-import { AlertTriangle, X } from 'lucide-react';
+import { AlertTriangle, Navigation, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { AlertDirection, AlertRouting, formatEta } from '@/lib/alerts';
 
-interface Alert {
+export interface Alert {
   id: string;
   type: string;
   description: string;
   location: { lat: number; lon: number };
   confidence: number;
   timestamp: string;
+  routing?: AlertRouting;
+  zones?: string[]; // names of the watch zones the hazard is in
 }
 
+const directionLabels: Record<AlertDirection, string> = {
+  ahead: 'Ahead',
+  behind: 'Behind you',
+  'off-route': 'Off your route',
+  unknown: 'Nearby',
+};
+
 interface AlertNotificationProps {
   alert: Alert;
   onDismiss: () => void;
@@ -19,6 +29,7 @@ interface AlertNotificationProps {
 
 const AlertNotification = ({ alert, onDismiss }: AlertNotificationProps) => {
   const [isVisible, setIsVisible] = useState(false);
+  const { routing } = alert;
 
   useEffect(() => {
     // Slide in animation
@@ -59,9 +70,26 @@ const AlertNotification = ({ alert, onDismiss }: AlertNotificationProps) => {
         </div>
         <div className="flex-1 min-w-0">
           <h3 className="font-bold text-critical capitalize mb-1">
-            {alert.type} Nearby!
+            {alert.type} {routing?.direction === 'ahead' ? 'Ahead!' : alert.zones?.length ? 'in Watch Zone' : 'Nearby!'}
           </h3>
+          {alert.zones && alert.zones.length > 0 && (
+            <p className="text-xs font-medium text-foreground mb-1">In {alert.zones.join(', ')}</p>
+          )}
           <p className="text-sm text-foreground mb-2">{alert.description}</p>
+          {routing && (
+            <div className="flex items-center gap-2 text-xs font-medium text-foreground mb-1">
+              {routing.relativeBearing !== null && (
+                <Navigation
+                  className="h-3 w-3 text-critical"
+                  style={{ transform: `rotate(${routing.relativeBearing}deg)` }}
+                />
+              )}
+              <span>
+                {directionLabels[routing.direction]} • {routing.distanceKm.toFixed(1)} km
+                {routing.etaSeconds !== null && ` • in ${formatEta(routing.etaSeconds)}`}
+              </span>
+            </div>
+          )}
           <p className="text-xs text-muted-foreground">
             {alert.confidence}% confidence • {new Date(alert.timestamp).toLocaleTimeString()}
           </p>
@@ -0,0 +1,155 @@
+import { useEffect, useState } from 'react';
+import { Settings, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { AlertPreferences } from '@/lib/api';
+import { HAZARD_TYPES } from '@/lib/hazards';
+import { usePreferences } from '@/contexts/PreferencesContext';
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+const AlertSettingsSheet = () => {
+  const { preferences, updatePreferences } = usePreferences();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<AlertPreferences>(preferences);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved settings every time the sheet opens
+  useEffect(() => {
+    if (open) setDraft(preferences);
+  }, [open, preferences]);
+
+  const update = (changes: Partial<AlertPreferences>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const toggleType = (type: string, checked: boolean) => {
+    update({
+      hazard_types: checked
+        ? [...draft.hazard_types, type]
+        : draft.hazard_types.filter((t) => t !== type),
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await updatePreferences(draft);
+      setOpen(false);
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon">
+          <Settings className="h-4 w-4" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Alert Settings</SheetTitle>
+          <SheetDescription>Choose which nearby hazards you get alerted about</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          <div className="space-y-3">
+            <Label>Alert radius: {draft.alert_radius_km} km</Label>
+            <Slider
+              min={0.5}
+              max={20}
+              step={0.5}
+              value={[draft.alert_radius_km]}
+              onValueChange={([alert_radius_km]) => update({ alert_radius_km })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Hazard types</Label>
+            <p className="text-xs text-muted-foreground">Leave all unchecked to be alerted about every type</p>
+            {HAZARD_TYPES.map((type) => (
+              <div key={type} className="flex items-center gap-2">
+                <Checkbox
+                  id={`alert-type-${type}`}
+                  checked={draft.hazard_types.includes(type)}
+                  onCheckedChange={(checked) => toggleType(type, checked === true)}
+                />
+                <Label htmlFor={`alert-type-${type}`} className="capitalize font-normal">
+                  {type}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Minimum confidence: {draft.min_confidence}%</Label>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={[draft.min_confidence]}
+              onValueChange={([min_confidence]) => update({ min_confidence })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="quiet-hours">Quiet hours</Label>
+              <Switch
+                id="quiet-hours"
+                checked={draft.quiet_hours !== null}
+                onCheckedChange={(checked) => update({ quiet_hours: checked ? DEFAULT_QUIET_HOURS : null })}
+              />
+            </div>
+            {draft.quiet_hours && (
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="quiet-start" className="text-xs text-muted-foreground">From</Label>
+                  <Input
+                    id="quiet-start"
+                    type="time"
+                    value={draft.quiet_hours.start}
+                    onChange={(e) => update({ quiet_hours: { ...draft.quiet_hours!, start: e.target.value } })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="quiet-end" className="text-xs text-muted-foreground">Until</Label>
+                  <Input
+                    id="quiet-end"
+                    type="time"
+                    value={draft.quiet_hours.end}
+                    onChange={(e) => update({ quiet_hours: { ...draft.quiet_hours!, end: e.target.value } })}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <SheetFooter>
+          <Button onClick={handleSave} disabled={saving} className="w-full">
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save settings
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AlertSettingsSheet;
@@ -0,0 +1,26 @@
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Wifi, WifiOff } from 'lucide-react';
+import { ConnectionStatus } from '@/lib/realtime';
+import { useRealtime } from '@/contexts/RealtimeContext';
+
+const statusStyles: Record<ConnectionStatus, { label: string; className: string }> = {
+  connected: { label: 'Live', className: 'text-primary border-primary/50' },
+  reconnecting: { label: 'Reconnecting', className: 'text-warning border-warning/50' },
+  offline: { label: 'Offline', className: 'text-muted-foreground' },
+};
+
+const ConnectionStatusBadge = () => {
+  const { status } = useRealtime();
+  const { label, className } = statusStyles[status];
+
+  return (
+    <Badge variant="outline" className={`gap-1 ${className}`} title="Real-time alerts">
+      {status === 'connected' && <Wifi className="h-3 w-3" />}
+      {status === 'reconnecting' && <Loader2 className="h-3 w-3 animate-spin" />}
+      {status === 'offline' && <WifiOff className="h-3 w-3" />}
+      {label}
+    </Badge>
+  );
+};
+
+export default ConnectionStatusBadge;
@@ -0,0 +1,21 @@
+import { ReactNode } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { RedirectState } from '@/components/ProtectedRoute';
+
+// Login and signup pages: signed-in users go back to the page that sent
+// them here, or to the dashboard
+const GuestRoute = ({ children }: { children?: ReactNode }) => {
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
+
+  if (isAuthenticated) {
+    const from = (location.state as RedirectState | null)?.from;
+    const target = from ? `${from.pathname}${from.search || ''}${from.hash || ''}` : '/dashboard';
+    return <Navigate to={target} replace />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default GuestRoute;
@@ -0,0 +1,107 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { Marker, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { Hazard } from '@/lib/api';
+import { clusterHazards, HazardCluster } from '@/lib/clustering';
+import { getHazardColor } from '@/lib/hazards';
+import { escapeMarkup } from '@/lib/utils';
+
+// Above this zoom level every hazard gets its own marker
+const CLUSTER_MAX_ZOOM = 17;
+
+// Cluster bubble with the total count and a colored chip per hazard type.
+// Hazard types come from reporters, so they are escaped before going into the HTML.
+const getClusterIcon = (cluster: HazardCluster) => {
+  const total = cluster.hazards.length;
+  const size = total < 10 ? 40 : total < 100 ? 48 : 56;
+  const chips = Object.entries(cluster.counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => `
+      <span title="${escapeMarkup(type)}" style="
+        background-color: ${getHazardColor(type)};
+        color: white;
+        border-radius: 9999px;
+        padding: 0 4px;
+        font-size: 10px;
+        line-height: 14px;
+      ">${count}</span>
+    `)
+    .join('');
+
+  return L.divIcon({
+    className: 'cluster-marker',
+    html: `
+      <div style="display: flex; flex-direction: column; align-items: center; gap: 2px;">
+        <div style="
+          background-color: rgba(249, 115, 22, 0.9);
+          color: white;
+          width: ${size}px;
+          height: ${size}px;
+          border-radius: 50%;
+          border: 3px solid white;
+          box-shadow: 0 4px 6px rgba(0,0,0,0.3);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          font-weight: 700;
+          font-size: 14px;
+        ">${total}</div>
+        <div style="display: flex; gap: 2px;">${chips}</div>
+      </div>
+    `,
+    iconSize: [size, size + 16],
+    iconAnchor: [size / 2, size / 2],
+  });
+};
+
+interface ClusteredMarkersProps {
+  hazards: Hazard[];
+  renderHazard: (hazard: Hazard) => ReactNode; // a single, unclustered hazard
+}
+
+const ClusteredMarkers = ({ hazards, renderHazard }: ClusteredMarkersProps) => {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+  });
+
+  const clusters = useMemo((): HazardCluster[] => {
+    if (zoom >= CLUSTER_MAX_ZOOM) {
+      return hazards.map((hazard) => ({
+        id: hazard._id,
+        center: hazard.location,
+        hazards: [hazard],
+        counts: { [hazard.hazard_type.toLowerCase()]: 1 },
+      }));
+    }
+    return clusterHazards(hazards, (location) => map.project([location.lat, location.lon], zoom));
+  }, [hazards, zoom, map]);
+
+  return (
+    <>
+      {clusters.map((cluster) =>
+        cluster.hazards.length === 1 ? (
+          renderHazard(cluster.hazards[0])
+        ) : (
+          <Marker
+            key={cluster.id}
+            position={[cluster.center.lat, cluster.center.lon]}
+            icon={getClusterIcon(cluster)}
+            eventHandlers={{
+              click: () => {
+                const bounds = L.latLngBounds(
+                  cluster.hazards.map((hazard) => [hazard.location.lat, hazard.location.lon])
+                );
+                map.fitBounds(bounds, { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM });
+              },
+            }}
+          />
+        )
+      )}
+    </>
+  );
+};
+
+export default ClusteredMarkers;
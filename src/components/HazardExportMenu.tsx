@@ -0,0 +1,53 @@
+import { Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Hazard } from '@/lib/api';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export';
+
+const downloadFile = (contents: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Firefox and Safari may cancel the download if the URL goes away in the same task
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Exports the hazards it is given; the dashboard passes the ones on screen
+const HazardExportMenu = ({ hazards }: { hazards: Hazard[] }) => {
+  const handleExport = (format: ExportFormat) => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(format.serialize(hazards), `hazards-${date}.${format.extension}`, format.mimeType);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" title="Export hazards" disabled={hazards.length === 0}>
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          Export {hazards.length} hazard{hazards.length !== 1 ? 's' : ''}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format.id} onSelect={() => handleExport(format)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default HazardExportMenu;
@@ -0,0 +1,147 @@
+import { format, parseISO } from 'date-fns';
+import { DateRange } from 'react-day-picker';
+import { CalendarIcon, Filter, Search, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DEFAULT_FILTERS, HazardFilters, hasActiveFilters, toDateParam } from '@/lib/filters';
+import { HAZARD_TYPES } from '@/lib/hazards';
+import { useLocation } from '@/contexts/LocationContext';
+
+const DISTANCE_OPTIONS = [1, 3, 5, 10, 25, 50];
+
+interface HazardFilterBarProps {
+  filters: HazardFilters;
+  onChange: (filters: HazardFilters) => void;
+  matchCount: number;
+  totalCount: number;
+}
+
+const HazardFilterBar = ({ filters, onChange, matchCount, totalCount }: HazardFilterBarProps) => {
+  const { currentLocation } = useLocation();
+
+  const update = (changes: Partial<HazardFilters>) => onChange({ ...filters, ...changes });
+
+  const dateRange: DateRange | undefined = filters.from
+    ? { from: parseISO(filters.from), to: filters.to ? parseISO(filters.to) : undefined }
+    : undefined;
+
+  const dateLabel = dateRange?.from
+    ? dateRange.to
+      ? `${format(dateRange.from, 'MMM d')} – ${format(dateRange.to, 'MMM d')}`
+      : format(dateRange.from, 'MMM d, yyyy')
+    : 'Any date';
+
+  return (
+    <Card>
+      <CardContent className="pt-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={filters.search}
+              onChange={(e) => update({ search: e.target.value })}
+              placeholder="Search descriptions..."
+              className="pl-8"
+            />
+          </div>
+          <Input
+            value={filters.reporter}
+            onChange={(e) => update({ reporter: e.target.value })}
+            placeholder="Reporter"
+            className="w-40"
+          />
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="w-48 justify-start font-normal">
+                <CalendarIcon className="h-4 w-4 mr-2" />
+                {dateLabel}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={dateRange}
+                onSelect={(range) =>
+                  update({
+                    from: range?.from ? toDateParam(range.from) : null,
+                    to: range?.to ? toDateParam(range.to) : null,
+                  })
+                }
+                numberOfMonths={2}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Select
+            value={filters.maxDistanceKm !== null ? String(filters.maxDistanceKm) : 'any'}
+            onValueChange={(value) => update({ maxDistanceKm: value === 'any' ? null : Number(value) })}
+            disabled={!currentLocation}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue placeholder="Any distance" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="any">Any distance</SelectItem>
+              {DISTANCE_OPTIONS.map((km) => (
+                <SelectItem key={km} value={String(km)}>
+                  Within {km} km
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <ToggleGroup
+            type="multiple"
+            size="sm"
+            variant="outline"
+            value={filters.types}
+            onValueChange={(types) => update({ types })}
+            className="flex-wrap justify-start"
+          >
+            {HAZARD_TYPES.map((type) => (
+              <ToggleGroupItem key={type} value={type} className="capitalize text-xs">
+                {type}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <div className="flex items-center gap-3 min-w-[220px] flex-1">
+            <Label className="text-xs text-muted-foreground whitespace-nowrap">
+              Min confidence {filters.minConfidence}%
+            </Label>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={[filters.minConfidence]}
+              onValueChange={([minConfidence]) => update({ minConfidence })}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Filter className="h-3 w-3" />
+            Showing {matchCount} of {totalCount} hazard{totalCount !== 1 ? 's' : ''}
+          </span>
+          {hasActiveFilters(filters) && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onChange(DEFAULT_FILTERS)}>
+              <X className="h-3 w-3 mr-1" />
+              Clear filters
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HazardFilterBar;
@@ -1,54 +1,80 @@
-import { Hazard } from '@/lib/api';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Hazard, hazardAPI, getErrorMessage } from '@/lib/api';
+import { calculateDistance } from '@/lib/geo';
+import { getHazardStatus, getStatusLabel, HazardType, isHazardClosed } from '@/lib/hazards';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { AlertTriangle, MapPin, Clock, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle, MapPin, Clock, User, CheckCircle2, RotateCcw } from 'lucide-react';
 import { useLocation } from '@/contexts/LocationContext';
+import { useToast } from '@/hooks/use-toast';
+import HazardVoting from '@/components/HazardVoting';
+import HazardPhotos from '@/components/HazardPhotos';
+import { isPendingHazard } from '@/hooks/use-hazards';
 
 interface HazardListProps {
   hazards: Hazard[];
+  showResolved: boolean;
+  onShowResolvedChange: (show: boolean) => void;
+  onHazardUpdated?: () => void;
 }
 
-const HazardList = ({ hazards }: HazardListProps) => {
+const HazardList = ({ hazards, showResolved, onShowResolvedChange, onHazardUpdated }: HazardListProps) => {
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
   const { currentLocation } = useLocation();
-
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371; // Radius of Earth in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
+  const { toast } = useToast();
+  const navigate = useNavigate();
 
   const getHazardVariant = (type: string) => {
-    const variants: Record<string, 'default' | 'destructive' | 'outline' | 'secondary'> = {
+    const variants: Record<HazardType, 'default' | 'destructive' | 'outline' | 'secondary'> = {
       accident: 'destructive',
       pothole: 'default',
       flood: 'secondary',
       roadblock: 'destructive',
       'traffic jam': 'outline',
     };
-    return variants[type.toLowerCase()] || 'default';
+    return variants[type.toLowerCase() as HazardType] || 'default';
+  };
+
+  const toggleResolved = async (hazard: Hazard) => {
+    const closed = isHazardClosed(hazard);
+    setUpdatingId(hazard._id);
+    try {
+      if (closed) {
+        await hazardAPI.reopenHazard(hazard._id);
+      } else {
+        await hazardAPI.resolveHazard(hazard._id);
+      }
+      toast({
+        title: closed ? "Hazard Reopened" : "Hazard Resolved",
+        description: closed
+          ? "The hazard is visible to other drivers again."
+          : "Thanks! Other drivers will no longer be warned about it.",
+      });
+      onHazardUpdated?.();
+    } catch (error) {
+      console.error('Error updating hazard status:', error);
+      toast({
+        title: "Update Failed",
+        description: getErrorMessage(error, "Could not update hazard status"),
+        variant: "destructive",
+      });
+    } finally {
+      setUpdatingId(null);
+    }
   };
 
-  const sortedHazards = [...hazards].sort((a, b) => {
+  const visibleHazards = showResolved ? hazards : hazards.filter((hazard) => !isHazardClosed(hazard));
+  const closedCount = hazards.filter(isHazardClosed).length;
+
+  const sortedHazards = [...visibleHazards].sort((a, b) => {
     if (!currentLocation) return new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
     
-    const distA = calculateDistance(
-      currentLocation.lat,
-      currentLocation.lon,
-      a.location.lat,
-      a.location.lon
-    );
-    const distB = calculateDistance(
-      currentLocation.lat,
-      currentLocation.lon,
-      b.location.lat,
-      b.location.lon
-    );
+    const distA = calculateDistance(currentLocation, a.location);
+    const distB = calculateDistance(currentLocation, b.location);
     return distA - distB;
   });
 
@@ -60,8 +86,19 @@ const HazardList = ({ hazards }: HazardListProps) => {
           Recent Hazards
         </CardTitle>
         <CardDescription>
-          {hazards.length} hazard{hazards.length !== 1 ? 's' : ''} reported
+          {visibleHazards.length} hazard{visibleHazards.length !== 1 ? 's' : ''} shown
+          {!showResolved && closedCount > 0 && ` • ${closedCount} resolved hidden`}
         </CardDescription>
+        <div className="flex items-center gap-2 pt-1">
+          <Switch
+            id="show-resolved"
+            checked={showResolved}
+            onCheckedChange={onShowResolvedChange}
+          />
+          <Label htmlFor="show-resolved" className="text-xs text-muted-foreground">
+            Show resolved
+          </Label>
+        </div>
       </CardHeader>
       <CardContent className="flex-1 overflow-auto space-y-3">
         {sortedHazards.length === 0 ? (
@@ -71,28 +108,41 @@ const HazardList = ({ hazards }: HazardListProps) => {
         ) : (
           sortedHazards.map((hazard) => {
             const distance = currentLocation
-              ? calculateDistance(
-                  currentLocation.lat,
-                  currentLocation.lon,
-                  hazard.location.lat,
-                  hazard.location.lon
-                )
+              ? calculateDistance(currentLocation, hazard.location)
               : null;
+            const status = getHazardStatus(hazard);
+            const closed = isHazardClosed(hazard);
+            // Just reported and not yet acknowledged by the server
+            const pending = isPendingHazard(hazard);
 
             return (
               <div
                 key={hazard._id}
-                className="p-4 border rounded-lg hover:border-primary/50 transition-colors bg-card"
+                onClick={() => !pending && navigate(`/hazards/${hazard._id}`)}
+                className={`p-4 border rounded-lg hover:border-primary/50 transition-colors bg-card cursor-pointer ${
+                  closed ? 'opacity-60 grayscale' : ''
+                }`}
               >
                 <div className="flex items-start justify-between mb-2">
-                  <Badge variant={getHazardVariant(hazard.hazard_type)} className="capitalize">
-                    {hazard.hazard_type}
-                  </Badge>
+                  <div className="flex items-center gap-1">
+                    <Badge variant={getHazardVariant(hazard.hazard_type)} className="capitalize">
+                      {hazard.hazard_type}
+                    </Badge>
+                    {status !== 'active' && (
+                      <Badge variant="outline">{getStatusLabel(status)}</Badge>
+                    )}
+                    {pending && <Badge variant="outline">Sending…</Badge>}
+                  </div>
                   <span className="text-xs text-muted-foreground">
                     {hazard.confidence}% confidence
                   </span>
                 </div>
                 <p className="text-sm mb-3">{hazard.description}</p>
+                {hazard.attachments && hazard.attachments.length > 0 && (
+                  <div className="mb-3">
+                    <HazardPhotos attachments={hazard.attachments} />
+                  </div>
+                )}
                 <div className="space-y-1 text-xs text-muted-foreground">
                   <div className="flex items-center gap-1">
                     <User className="h-3 w-3" />
@@ -108,7 +158,45 @@ const HazardList = ({ hazards }: HazardListProps) => {
                     <Clock className="h-3 w-3" />
                     <span>{new Date(hazard.timestamp).toLocaleString()}</span>
                   </div>
+                  {hazard.resolved_at && closed && (
+                    <div className="flex items-center gap-1">
+                      <CheckCircle2 className="h-3 w-3" />
+                      <span>
+                        Resolved {new Date(hazard.resolved_at).toLocaleString()}
+                        {hazard.resolved_by && ` by ${hazard.resolved_by}`}
+                      </span>
+                    </div>
+                  )}
                 </div>
+                {/* Actions should not open the detail page */}
+                {!closed && !pending && (
+                  <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+                    <HazardVoting hazard={hazard} onVoted={onHazardUpdated} />
+                  </div>
+                )}
+                {!pending && (
+                  <div className="flex justify-end mt-3" onClick={(e) => e.stopPropagation()}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      disabled={updatingId === hazard._id}
+                      onClick={() => toggleResolved(hazard)}
+                    >
+                      {closed ? (
+                        <>
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Reopen
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle2 className="h-3 w-3 mr-1" />
+                          Mark resolved
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                )}
               </div>
             );
           })
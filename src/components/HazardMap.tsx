@@ -1,9 +1,34 @@
-// @ts-nocheck
-import { useEffect } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  MapContainer,
+  TileLayer,
+  Marker,
+  Popup,
+  Circle,
+  CircleMarker,
+  Polyline,
+  useMap,
+  useMapEvents,
+} from 'react-leaflet';
 import L from 'leaflet';
-import { Hazard } from '@/lib/api';
+import { Link } from 'react-router-dom';
+import { BoundingBox, Hazard, Location, WatchZone, WatchZoneShape } from '@/lib/api';
+import { calculateDistance } from '@/lib/geo';
+import { filterByTimeWindow } from '@/lib/heatmap';
+import {
+  getHazardColor,
+  getHazardStatus,
+  getStatusLabel,
+  isHazardClosed,
+  MUTED_HAZARD_COLOR,
+} from '@/lib/hazards';
 import { useLocation } from '@/contexts/LocationContext';
+import HazardVoting from '@/components/HazardVoting';
+import HazardPhotos from '@/components/HazardPhotos';
+import ClusteredMarkers from '@/components/HazardClusters';
+import { HeatmapControls, HeatmapLayer } from '@/components/HeatmapLayer';
+import { BoundsFitter, BoundsWatcher } from '@/components/MapBounds';
+import { ZoneDrawer, ZoneDrawMode, ZoneShape } from '@/components/ZoneLayers';
 import 'leaflet/dist/leaflet.css';
 
 // Fix for default marker icons in React Leaflet
@@ -20,16 +45,8 @@ const DefaultIcon = L.icon({
 L.Marker.prototype.options.icon = DefaultIcon;
 
 // Create custom icons for different hazard types
-const getHazardIcon = (hazardType: string) => {
-  const colors: Record<string, string> = {
-    accident: '#ef4444',
-    pothole: '#f97316',
-    flood: '#3b82f6',
-    roadblock: '#dc2626',
-    'traffic jam': '#eab308',
-  };
-  
-  const color = colors[hazardType.toLowerCase()] || '#f97316';
+const getHazardIcon = (hazardType: string, muted = false) => {
+  const color = muted ? MUTED_HAZARD_COLOR : getHazardColor(hazardType);
   
   return L.divIcon({
     className: 'custom-marker',
@@ -45,120 +62,288 @@ const getHazardIcon = (hazardType: string) => {
         align-items: center;
         justify-content: center;
         font-size: 16px;
-      ">⚠️</div>
+        opacity: ${muted ? 0.6 : 1};
+      ">${muted ? '✔️' : '⚠️'}</div>
     `,
     iconSize: [30, 30],
     iconAnchor: [15, 15],
   });
 };
 
-const getUserIcon = () => {
+// Pulsing dot, with an arrow pointing along the heading when moving
+const getUserIcon = (heading?: number | null) => {
+  const arrow = heading !== null && heading !== undefined
+    ? `
+      <div style="
+        position: absolute;
+        top: -12px;
+        left: 50%;
+        width: 0;
+        height: 0;
+        margin-left: -7px;
+        border-left: 7px solid transparent;
+        border-right: 7px solid transparent;
+        border-bottom: 12px solid #10b981;
+      "></div>
+    `
+    : '';
+
   return L.divIcon({
     className: 'user-marker',
     html: `
-      <div style="
-        background-color: #10b981;
-        width: 20px;
-        height: 20px;
-        border-radius: 50%;
-        border: 3px solid white;
-        box-shadow: 0 4px 6px rgba(0,0,0,0.3);
-        animation: pulse 2s ease-in-out infinite;
-      "></div>
+      <div style="position: relative; width: 20px; height: 20px; transform: rotate(${heading || 0}deg);">
+        ${arrow}
+        <div style="
+          background-color: #10b981;
+          width: 20px;
+          height: 20px;
+          border-radius: 50%;
+          border: 3px solid white;
+          box-shadow: 0 4px 6px rgba(0,0,0,0.3);
+          animation: pulse 2s ease-in-out infinite;
+        "></div>
+      </div>
     `,
     iconSize: [20, 20],
     iconAnchor: [10, 10],
   });
 };
 
-const MapController = ({ center }: { center: [number, number] }) => {
+// 'fixed' shows a given point, 'follow' tracks the user and 'none' leaves
+// the view to something else (a route or the hazards being fitted)
+type ViewMode = 'fixed' | 'follow' | 'none';
+
+// Depends on the coordinates rather than the array so re-renders don't
+// snap the view back. When following the user, the map only pans once they
+// leave the visible area, and stops following once they drag or zoom it.
+const MapController = ({ center, mode }: { center: [number, number]; mode: ViewMode }) => {
   const map = useMap();
+  const [lat, lon] = center;
+  const userMovedRef = useRef(false);
+
+  useMapEvents({
+    dragstart: () => {
+      userMovedRef.current = true;
+    },
+    zoomstart: () => {
+      userMovedRef.current = true;
+    },
+  });
+
+  // Declared first so a new mode starts out following again
+  useEffect(() => {
+    userMovedRef.current = false;
+  }, [mode]);
+
   useEffect(() => {
-    map.setView(center, map.getZoom());
-  }, [center, map]);
+    if (mode === 'none') return;
+    if (mode === 'follow' && (userMovedRef.current || map.getBounds().contains([lat, lon]))) return;
+    map.setView([lat, lon], map.getZoom());
+  }, [lat, lon, mode, map]);
   return null;
 };
 
+const MapClickHandler = ({ onMapClick }: { onMapClick: (location: Location) => void }) => {
+  useMapEvents({
+    click: (e) => onMapClick({ lat: e.latlng.lat, lon: e.latlng.lng }),
+  });
+  return null;
+};
+
+interface HazardMarkerProps {
+  hazard: Hazard;
+  onHazardUpdated?: () => void;
+  readOnly?: boolean;
+}
+
+const HazardMarker = ({ hazard, onHazardUpdated, readOnly }: HazardMarkerProps) => {
+  const { currentLocation } = useLocation();
+  const distance = currentLocation
+    ? calculateDistance(currentLocation, hazard.location)
+    : 0;
+  const status = getHazardStatus(hazard);
+  const closed = isHazardClosed(hazard);
+
+  return (
+    <Marker
+      position={[hazard.location.lat, hazard.location.lon]}
+      icon={getHazardIcon(hazard.hazard_type, closed)}
+    >
+      <Popup>
+        <div className="space-y-2 min-w-[200px]">
+          <h3 className={`font-bold capitalize ${closed ? 'text-muted-foreground' : 'text-primary'}`}>
+            {hazard.hazard_type}
+          </h3>
+          <p className="text-sm">{hazard.description}</p>
+          <HazardPhotos attachments={hazard.attachments} />
+          <div className="text-xs text-muted-foreground space-y-1">
+            <p>Status: {getStatusLabel(status)}</p>
+            <p>Reported by: {hazard.user_id}</p>
+            <p>Confidence: {hazard.confidence}%</p>
+            {distance > 0 && <p>Distance: {distance.toFixed(2)} km away</p>}
+            <p>Time: {new Date(hazard.timestamp).toLocaleString()}</p>
+          </div>
+          {!closed && !readOnly && <HazardVoting hazard={hazard} onVoted={onHazardUpdated} />}
+          {!readOnly && (
+            <Link to={`/hazards/${hazard._id}`} className="block text-xs font-medium text-primary hover:underline">
+              View details →
+            </Link>
+          )}
+        </div>
+      </Popup>
+    </Marker>
+  );
+};
+
 interface HazardMapProps {
   hazards: Hazard[];
+  showResolved?: boolean;
+  onHazardUpdated?: () => void;
+  onBoundsChange?: (bbox: BoundingBox) => void;
+  center?: Location; // fixed center instead of following the user
+  zoom?: number;
+  showControls?: boolean;
+  route?: Location[];
+  routeEndpoints?: Location[];
+  onMapClick?: (location: Location) => void;
+  fitToHazards?: boolean; // zoom to show every hazard instead of a fixed view
+  readOnly?: boolean; // hazards that do not exist on the server yet
+  zones?: WatchZone[];
+  draftZone?: WatchZoneShape | null; // drawn but not saved yet
+  drawMode?: ZoneDrawMode | null;
+  onZoneDrawn?: (shape: WatchZoneShape) => void;
+  onDrawCancel?: () => void;
 }
 
-const HazardMap = ({ hazards }: HazardMapProps) => {
+const HazardMap = ({
+  hazards,
+  showResolved = false,
+  onHazardUpdated,
+  onBoundsChange,
+  center: fixedCenter,
+  zoom = 13,
+  showControls = true,
+  route,
+  routeEndpoints = [],
+  onMapClick,
+  fitToHazards = false,
+  readOnly = false,
+  zones = [],
+  draftZone,
+  drawMode,
+  onZoneDrawn,
+  onDrawCancel,
+}: HazardMapProps) => {
   const { currentLocation } = useLocation();
   
-  const center: [number, number] = currentLocation
-    ? [currentLocation.lat, currentLocation.lon]
+  const centerLocation = fixedCenter || currentLocation;
+  const center: [number, number] = centerLocation
+    ? [centerLocation.lat, centerLocation.lon]
     : [40.7128, -74.0060]; // Default to NYC
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371; // Radius of Earth in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
+  const hasRoute = !!route && route.length > 1;
+  const viewMode: ViewMode = fixedCenter ? 'fixed' : hasRoute || fitToHazards ? 'none' : 'follow';
 
-  return (
-    <MapContainer
-      center={center}
-      zoom={13}
-      style={{ height: '100%', width: '100%', borderRadius: '0.75rem' }}
-    >
-      <MapController center={center} />
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-      />
-      
-      {/* User location marker */}
-      {currentLocation && (
-        <Marker
-          position={[currentLocation.lat, currentLocation.lon]}
-          icon={getUserIcon()}
-        >
-          <Popup>
-            <div className="text-sm font-medium">Your Location</div>
-          </Popup>
-        </Marker>
-      )}
+  const [heatmapEnabled, setHeatmapEnabled] = useState(false);
+  const [windowHours, setWindowHours] = useState(24);
+
+  const visibleHazards = showResolved ? hazards : hazards.filter((hazard) => !isHazardClosed(hazard));
+  // Resolved hazards still count towards density: planners care where
+  // problems keep recurring, not only where they are right now.
+  const heatmapHazards = useMemo(
+    () => filterByTimeWindow(hazards, windowHours),
+    [hazards, windowHours]
+  );
+  const hazardLocations = useMemo(() => hazards.map((hazard) => hazard.location), [hazards]);
 
-      {/* Hazard markers */}
-      {hazards.map((hazard) => {
-        const distance = currentLocation
-          ? calculateDistance(
-              currentLocation.lat,
-              currentLocation.lon,
-              hazard.location.lat,
-              hazard.location.lon
-            )
-          : 0;
-
-        return (
+  return (
+    <div className={`relative h-full w-full ${onMapClick || drawMode ? '[&_.leaflet-container]:cursor-crosshair' : ''}`}>
+      <MapContainer
+        center={center}
+        zoom={zoom}
+        style={{ height: '100%', width: '100%', borderRadius: '0.75rem' }}
+      >
+        <MapController center={center} mode={viewMode} />
+        {onBoundsChange && <BoundsWatcher onBoundsChange={onBoundsChange} />}
+        {onMapClick && <MapClickHandler onMapClick={onMapClick} />}
+        <TileLayer
+          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        />
+        
+        {/* User location marker */}
+        {currentLocation && currentLocation.accuracy && (
+          <Circle
+            center={[currentLocation.lat, currentLocation.lon]}
+            radius={currentLocation.accuracy}
+            pathOptions={{ color: '#10b981', fillColor: '#10b981', fillOpacity: 0.1, weight: 1 }}
+          />
+        )}
+        {currentLocation && (
           <Marker
-            key={hazard._id}
-            position={[hazard.location.lat, hazard.location.lon]}
-            icon={getHazardIcon(hazard.hazard_type)}
+            position={[currentLocation.lat, currentLocation.lon]}
+            icon={getUserIcon(currentLocation.heading)}
           >
             <Popup>
-              <div className="space-y-2 min-w-[200px]">
-                <h3 className="font-bold text-primary capitalize">{hazard.hazard_type}</h3>
-                <p className="text-sm">{hazard.description}</p>
-                <div className="text-xs text-muted-foreground space-y-1">
-                  <p>Reported by: {hazard.user_id}</p>
-                  <p>Confidence: {hazard.confidence}%</p>
-                  {distance > 0 && <p>Distance: {distance.toFixed(2)} km away</p>}
-                  <p>Time: {new Date(hazard.timestamp).toLocaleString()}</p>
+              <div className="text-sm font-medium">Your Location</div>
+              {currentLocation.accuracy && (
+                <div className="text-xs text-muted-foreground">
+                  Accurate to {Math.round(currentLocation.accuracy)} m
+                  {currentLocation.speed ? ` • ${(currentLocation.speed * 3.6).toFixed(0)} km/h` : ''}
                 </div>
-              </div>
+              )}
             </Popup>
           </Marker>
-        );
-      })}
-    </MapContainer>
+        )}
+
+        {/* Planned route */}
+        {hasRoute && <BoundsFitter points={route} />}
+        {hasRoute && (
+          <Polyline
+            positions={route.map((point) => [point.lat, point.lon])}
+            pathOptions={{ color: '#2563eb', weight: 5, opacity: 0.7 }}
+          />
+        )}
+        {routeEndpoints.map((point, index) => (
+          <CircleMarker
+            key={index}
+            center={[point.lat, point.lon]}
+            radius={8}
+            pathOptions={{ color: 'white', weight: 3, fillColor: '#2563eb', fillOpacity: 1 }}
+          />
+        ))}
+
+        {fitToHazards && hazardLocations.length > 0 && <BoundsFitter points={hazardLocations} />}
+
+        {/* Watch zones */}
+        {zones.map((zone) => (
+          <ZoneShape key={zone._id} shape={zone.shape} name={zone.name} />
+        ))}
+        {draftZone && <ZoneShape shape={draftZone} draft />}
+        {drawMode && onZoneDrawn && <ZoneDrawer mode={drawMode} onDrawn={onZoneDrawn} onCancel={onDrawCancel} />}
+
+        {/* Hazard markers or density heatmap */}
+        {heatmapEnabled ? (
+          <HeatmapLayer hazards={heatmapHazards} />
+        ) : (
+          <ClusteredMarkers
+            hazards={visibleHazards}
+            renderHazard={(hazard) => (
+              <HazardMarker key={hazard._id} hazard={hazard} onHazardUpdated={onHazardUpdated} readOnly={readOnly} />
+            )}
+          />
+        )}
+      </MapContainer>
+      {showControls && (
+        <HeatmapControls
+          enabled={heatmapEnabled}
+          onEnabledChange={setHeatmapEnabled}
+          windowHours={windowHours}
+          onWindowHoursChange={setWindowHours}
+          count={heatmapHazards.length}
+        />
+      )}
+    </div>
   );
 };
 
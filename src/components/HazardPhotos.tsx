@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { HazardAttachment, getMediaUrl } from '@/lib/api';
+
+interface HazardPhotosProps {
+  attachments?: HazardAttachment[];
+}
+
+// Thumbnail strip that opens a full-size carousel lightbox
+const HazardPhotos = ({ attachments }: HazardPhotosProps) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const photos = (attachments || []).filter(
+    (attachment) => !attachment.content_type || attachment.content_type.startsWith('image/')
+  );
+  if (photos.length === 0) return null;
+
+  // Clicks (including ones inside the portalled dialog) must not reach a
+  // clickable parent card
+  return (
+    <div onClick={(e) => e.stopPropagation()}>
+      <div className="flex gap-1 overflow-x-auto">
+        {photos.map((photo, index) => (
+          <button
+            key={photo.url}
+            type="button"
+            onClick={() => setOpenIndex(index)}
+            className="h-12 w-12 flex-shrink-0 overflow-hidden rounded border hover:border-primary"
+          >
+            <img
+              src={getMediaUrl(photo.thumbnail_url || photo.url)}
+              alt={`Hazard photo ${index + 1}`}
+              className="h-full w-full object-cover"
+              loading="lazy"
+            />
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={openIndex !== null} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogTitle className="sr-only">Hazard photos</DialogTitle>
+          <Carousel opts={{ startIndex: openIndex ?? 0 }} className="mx-10">
+            <CarouselContent>
+              {photos.map((photo, index) => (
+                <CarouselItem key={photo.url} className="flex items-center justify-center">
+                  <img
+                    src={getMediaUrl(photo.url)}
+                    alt={`Hazard photo ${index + 1}`}
+                    className="max-h-[70vh] w-auto rounded-md"
+                  />
+                </CarouselItem>
+              ))}
+            </CarouselContent>
+            {photos.length > 1 && (
+              <>
+                <CarouselPrevious />
+                <CarouselNext />
+              </>
+            )}
+          </Carousel>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default HazardPhotos;
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { Hazard, HazardVote, hazardAPI, getErrorMessage } from '@/lib/api';
+import { getTrustLevel, getTrustScore } from '@/lib/hazards';
+import { useToast } from '@/hooks/use-toast';
+
+interface HazardVotingProps {
+  hazard: Hazard;
+  onVoted?: () => void;
+}
+
+const trustColors = {
+  high: 'text-emerald-600',
+  medium: 'text-warning',
+  low: 'text-critical',
+};
+
+const HazardVoting = ({ hazard, onVoted }: HazardVotingProps) => {
+  const [voting, setVoting] = useState<HazardVote | null>(null);
+  const { toast } = useToast();
+
+  const trustScore = getTrustScore(hazard);
+
+  const vote = async (type: HazardVote) => {
+    setVoting(type);
+    try {
+      if (type === 'confirm') {
+        await hazardAPI.confirmHazard(hazard._id);
+      } else {
+        await hazardAPI.disputeHazard(hazard._id);
+      }
+      toast({
+        title: "Thanks for the update",
+        description: type === 'confirm'
+          ? "You confirmed this hazard is still there."
+          : "You reported this hazard is no longer there.",
+      });
+      onVoted?.();
+    } catch (error) {
+      console.error('Error voting on hazard:', error);
+      toast({
+        title: "Vote Failed",
+        description: getErrorMessage(error, "Could not record your vote"),
+        variant: "destructive",
+      });
+    } finally {
+      setVoting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Trust: <span className={`font-medium ${trustColors[getTrustLevel(trustScore)]}`}>{trustScore}%</span>
+        {' '}• {hazard.confirmations || 0} confirmed • {hazard.disputes || 0} disputed
+      </p>
+      <div className="flex gap-2">
+        <Button
+          variant={hazard.user_vote === 'confirm' ? 'default' : 'outline'}
+          size="sm"
+          className="h-7 flex-1 text-xs"
+          disabled={voting !== null}
+          onClick={() => vote('confirm')}
+        >
+          <ThumbsUp className="h-3 w-3 mr-1" />
+          Still there
+        </Button>
+        <Button
+          variant={hazard.user_vote === 'dispute' ? 'default' : 'outline'}
+          size="sm"
+          className="h-7 flex-1 text-xs"
+          disabled={voting !== null}
+          onClick={() => vote('dispute')}
+        >
+          <ThumbsDown className="h-3 w-3 mr-1" />
+          Not there anymore
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default HazardVoting;
@@ -0,0 +1,113 @@
+import { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import L from 'leaflet';
+import { Hazard } from '@/lib/api';
+import {
+  DEFAULT_CUSTOM_WINDOW_HOURS,
+  drawHeatmap,
+  formatTimeWindow,
+  MAX_TIME_WINDOW_HOURS,
+  TIME_WINDOW_PRESETS,
+} from '@/lib/heatmap';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+// Canvas overlay re-rendered whenever the map stops moving
+export const HeatmapLayer = ({ hazards }: { hazards: Hazard[] }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide') as HTMLCanvasElement;
+    canvas.style.position = 'absolute';
+    canvas.style.pointerEvents = 'none';
+    map.getPanes().overlayPane.appendChild(canvas);
+
+    const draw = () => {
+      const size = map.getSize();
+      canvas.width = size.x;
+      canvas.height = size.y;
+      L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]));
+      drawHeatmap(
+        canvas,
+        hazards.map((hazard) => {
+          const point = map.latLngToContainerPoint([hazard.location.lat, hazard.location.lon]);
+          return { x: point.x, y: point.y, weight: hazard.confidence / 100 };
+        })
+      );
+    };
+
+    draw();
+    map.on('moveend zoomend resize', draw);
+
+    return () => {
+      map.off('moveend zoomend resize', draw);
+      canvas.remove();
+    };
+  }, [map, hazards]);
+
+  return null;
+};
+
+interface HeatmapControlsProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  windowHours: number;
+  onWindowHoursChange: (hours: number) => void;
+  count: number;
+}
+
+export const HeatmapControls = ({
+  enabled,
+  onEnabledChange,
+  windowHours,
+  onWindowHoursChange,
+  count,
+}: HeatmapControlsProps) => {
+  const isPresetWindow = TIME_WINDOW_PRESETS.some((preset) => preset.hours === windowHours);
+
+  return (
+    <div className="absolute top-3 right-3 z-[1000] w-64 rounded-lg border bg-card/95 p-3 shadow-md space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="heatmap-toggle" className="text-sm font-medium">Density heatmap</Label>
+        <Switch id="heatmap-toggle" checked={enabled} onCheckedChange={onEnabledChange} />
+      </div>
+      {enabled && (
+        <>
+          <div className="flex gap-1">
+            {TIME_WINDOW_PRESETS.map((preset) => (
+              <Button
+                key={preset.hours}
+                variant={windowHours === preset.hours ? 'default' : 'outline'}
+                size="sm"
+                className="h-7 flex-1 text-xs"
+                onClick={() => onWindowHoursChange(preset.hours)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+            <Button
+              variant={isPresetWindow ? 'outline' : 'default'}
+              size="sm"
+              className="h-7 flex-1 text-xs"
+              onClick={() => isPresetWindow && onWindowHoursChange(DEFAULT_CUSTOM_WINDOW_HOURS)}
+            >
+              Custom
+            </Button>
+          </div>
+          <Slider
+            min={1}
+            max={MAX_TIME_WINDOW_HOURS}
+            step={1}
+            value={[windowHours]}
+            onValueChange={([hours]) => onWindowHoursChange(hours)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Last {formatTimeWindow(windowHours)} • {count} hazard{count !== 1 ? 's' : ''}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import { useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { BoundingBox, Location } from '@/lib/api';
+
+const toBoundingBox = (bounds: L.LatLngBounds): BoundingBox => ({
+  south: bounds.getSouth(),
+  west: bounds.getWest(),
+  north: bounds.getNorth(),
+  east: bounds.getEast(),
+});
+
+// Zooms out to show a newly planned route, or every given point, in full
+export const BoundsFitter = ({ points }: { points: Location[] }) => {
+  const map = useMap();
+  useEffect(() => {
+    map.fitBounds(L.latLngBounds(points.map((point) => [point.lat, point.lon])), { padding: [30, 30] });
+  }, [points, map]);
+  return null;
+};
+
+// Reports the visible bounding box whenever the user stops panning or zooming
+export const BoundsWatcher = ({ onBoundsChange }: { onBoundsChange: (bbox: BoundingBox) => void }) => {
+  const map = useMapEvents({
+    moveend: () => onBoundsChange(toBoundingBox(map.getBounds())),
+  });
+
+  useEffect(() => {
+    onBoundsChange(toBoundingBox(map.getBounds()));
+  }, [map, onBoundsChange]);
+
+  return null;
+};
@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Camera, ImagePlus, Loader2, X } from 'lucide-react';
+import { Location } from '@/lib/api';
+import { compressImage, extractGpsLocation } from '@/lib/images';
+import { useToast } from '@/hooks/use-toast';
+
+const MAX_PHOTOS = 5;
+
+interface PhotoPickerProps {
+  photos: Blob[];
+  onChange: (photos: Blob[]) => void;
+  // Called with the first GPS position found in a photo's EXIF data
+  onGpsLocation?: (location: Location) => void;
+}
+
+const PhotoPicker = ({ photos, onChange, onGpsLocation }: PhotoPickerProps) => {
+  const [processing, setProcessing] = useState(false);
+  const [previews, setPreviews] = useState<string[]>([]);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const urls = photos.map((photo) => URL.createObjectURL(photo));
+    setPreviews(urls);
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, [photos]);
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const selected = Array.from(files).slice(0, MAX_PHOTOS - photos.length);
+
+    setProcessing(true);
+    try {
+      // EXIF has to be read from the original: compression strips it
+      if (onGpsLocation) {
+        for (const file of selected) {
+          const location = await extractGpsLocation(file);
+          if (location) {
+            onGpsLocation(location);
+            break;
+          }
+        }
+      }
+      const compressed = await Promise.all(selected.map(compressImage));
+      onChange([...photos, ...compressed]);
+    } catch (error) {
+      console.error('Error processing photos:', error);
+      toast({
+        title: "Photo Failed",
+        description: "Could not process the selected photo",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={processing || photos.length >= MAX_PHOTOS}
+          onClick={() => cameraInputRef.current?.click()}
+        >
+          <Camera className="h-4 w-4 mr-2" />
+          Take photo
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={processing || photos.length >= MAX_PHOTOS}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {processing ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <ImagePlus className="h-4 w-4 mr-2" />
+          )}
+          Add photos
+        </Button>
+        <input
+          ref={cameraInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {previews.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          {previews.map((url, index) => (
+            <div key={url} className="relative h-16 w-16">
+              <img src={url} alt={`Photo ${index + 1}`} className="h-full w-full rounded object-cover" />
+              <button
+                type="button"
+                onClick={() => onChange(photos.filter((_, i) => i !== index))}
+                className="absolute -top-1 -right-1 rounded-full bg-background border p-0.5"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoPicker;
@@ -0,0 +1,33 @@
+import { ReactNode } from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { hasRole, UserRole } from '@/lib/auth';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Where the login page sends the user once they are signed in
+export interface RedirectState {
+  from?: { pathname: string; search?: string; hash?: string };
+}
+
+interface ProtectedRouteProps {
+  role?: UserRole; // minimum role, e.g. 'moderator' also admits admins
+  children?: ReactNode;
+}
+
+// Wraps a single page, or a group of routes when used as a layout route
+const ProtectedRoute = ({ role, children }: ProtectedRouteProps) => {
+  const { user } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    const state: RedirectState = { from: location };
+    return <Navigate to="/login" replace state={state} />;
+  }
+
+  if (role && !hasRole(user.role, role)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <>{children ?? <Outlet />}</>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Loader2, Send, Zap } from 'lucide-react';
+import { HazardSeverity } from '@/lib/api';
+import { HAZARD_TYPES } from '@/lib/hazards';
+import { useLocation } from '@/contexts/LocationContext';
+import { useToast } from '@/hooks/use-toast';
+import { useReportHazard } from '@/hooks/use-hazards';
+
+const SEVERITIES: HazardSeverity[] = ['low', 'medium', 'high'];
+
+const ReportHazardForm = () => {
+  const [hazardType, setHazardType] = useState('');
+  const [description, setDescription] = useState('');
+  const [severity, setSeverity] = useState<HazardSeverity>('medium');
+  const [overrideLocation, setOverrideLocation] = useState(false);
+  const [lat, setLat] = useState('');
+  const [lon, setLon] = useState('');
+  const { currentLocation } = useLocation();
+  const reportHazard = useReportHazard();
+  const { toast } = useToast();
+
+  const getLocation = () => {
+    if (!overrideLocation) return currentLocation;
+    const parsed = { lat: parseFloat(lat), lon: parseFloat(lon) };
+    const valid =
+      Number.isFinite(parsed.lat) && Math.abs(parsed.lat) <= 90 &&
+      Number.isFinite(parsed.lon) && Math.abs(parsed.lon) <= 180;
+    return valid ? parsed : null;
+  };
+
+  const resetForm = () => {
+    setHazardType('');
+    setDescription('');
+    setSeverity('medium');
+    setOverrideLocation(false);
+    setLat('');
+    setLon('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const location = getLocation();
+    if (!hazardType || !location) {
+      toast({
+        title: "Report Failed",
+        description: !hazardType ? "Pick a hazard type" : "Missing or invalid location",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The hazard shows up on the map right away; failures are reported by
+    // the shared mutation error handler
+    reportHazard.mutate(
+      {
+        hazard_type: hazardType,
+        description: description.trim() || undefined,
+        severity,
+        location,
+      },
+      {
+        onSuccess: () => {
+          toast({
+            title: "Hazard Reported Successfully",
+            description: `Reported a ${hazardType} (${severity} severity)`,
+          });
+          resetForm();
+        },
+      }
+    );
+  };
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="h-5 w-5 text-primary" />
+          Quick Hazard Report
+        </CardTitle>
+        <CardDescription>
+          Tap a hazard type to report it without speaking
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            {HAZARD_TYPES.map((type) => (
+              <Button
+                key={type}
+                type="button"
+                variant={hazardType === type ? 'default' : 'outline'}
+                className="h-14 capitalize"
+                onClick={() => setHazardType(type)}
+              >
+                {type}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Severity</Label>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={severity}
+              onValueChange={(value) => value && setSeverity(value as HazardSeverity)}
+              className="justify-start"
+            >
+              {SEVERITIES.map((level) => (
+                <ToggleGroupItem key={level} value={level} className="capitalize">
+                  {level}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="hazard-description">Description (optional)</Label>
+            <Textarea
+              id="hazard-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Deep pothole in the right lane"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="override-location"
+                checked={overrideLocation}
+                onCheckedChange={setOverrideLocation}
+              />
+              <Label htmlFor="override-location">Use a different location</Label>
+            </div>
+            {overrideLocation && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  step="any"
+                  value={lat}
+                  onChange={(e) => setLat(e.target.value)}
+                  placeholder="Latitude"
+                />
+                <Input
+                  type="number"
+                  step="any"
+                  value={lon}
+                  onChange={(e) => setLon(e.target.value)}
+                  placeholder="Longitude"
+                />
+              </div>
+            )}
+          </div>
+
+          <Button type="submit" className="w-full" disabled={reportHazard.isPending || !hazardType}>
+            {reportHazard.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              <>
+                <Send className="h-4 w-4 mr-2" />
+                Submit Report
+              </>
+            )}
+          </Button>
+
+          {!currentLocation && !overrideLocation && (
+            <p className="text-sm text-muted-foreground text-center">
+              📍 Waiting for location...
+            </p>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ReportHazardForm;
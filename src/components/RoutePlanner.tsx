@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Crosshair, LocateFixed, Loader2, Route as RouteIcon, X } from 'lucide-react';
+import { Location } from '@/lib/api';
+import { defaultRoutingProvider, findHazardsAlongRoute, Route, RoutingProvider } from '@/lib/routing';
+import { formatEta } from '@/lib/alerts';
+import { getBoundingBox } from '@/lib/geo';
+import { isHazardClosed } from '@/lib/hazards';
+import { useLocation } from '@/contexts/LocationContext';
+import { useToast } from '@/hooks/use-toast';
+import { useHazards } from '@/hooks/use-hazards';
+
+export type RouteEndpoint = 'origin' | 'destination';
+
+const CORRIDOR_OPTIONS = [0.05, 0.1, 0.25, 0.5]; // km
+
+const formatPoint = (location: Location | null) =>
+  location ? `${location.lat.toFixed(5)}, ${location.lon.toFixed(5)}` : '';
+
+const parsePoint = (value: string): Location | null => {
+  const [lat, lon] = value.split(',').map((part) => parseFloat(part.trim()));
+  if (!Number.isFinite(lat) || !Number.isFinite(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return null;
+  }
+  return { lat, lon };
+};
+
+interface RoutePlannerProps {
+  origin: Location | null;
+  destination: Location | null;
+  onEndpointChange: (endpoint: RouteEndpoint, location: Location | null) => void;
+  pickTarget: RouteEndpoint | null;
+  onPickTargetChange: (target: RouteEndpoint | null) => void;
+  route: Route | null;
+  onRouteChange: (route: Route | null) => void;
+  provider?: RoutingProvider;
+}
+
+const RoutePlanner = ({
+  origin,
+  destination,
+  onEndpointChange,
+  pickTarget,
+  onPickTargetChange,
+  route,
+  onRouteChange,
+  provider = defaultRoutingProvider,
+}: RoutePlannerProps) => {
+  const [originText, setOriginText] = useState(formatPoint(origin));
+  const [destinationText, setDestinationText] = useState(formatPoint(destination));
+  const [corridorKm, setCorridorKm] = useState(0.1);
+  const [planning, setPlanning] = useState(false);
+  const { currentLocation } = useLocation();
+  const { toast } = useToast();
+
+  // Hazards around the whole route, which usually extends past the map view.
+  // Cached by area, so they are still there when the planner is remounted.
+  const routeArea = useMemo(
+    () => (route ? getBoundingBox(route.coordinates, Math.max(...CORRIDOR_OPTIONS)) : null),
+    [route]
+  );
+  const areaQuery = useHazards(routeArea);
+  const areaHazards = useMemo(
+    () => (areaQuery.data?.hazards ?? []).filter((hazard) => !isHazardClosed(hazard)),
+    [areaQuery.data]
+  );
+
+  // Keep the inputs in sync with points tapped on the map
+  useEffect(() => setOriginText(formatPoint(origin)), [origin]);
+  useEffect(() => setDestinationText(formatPoint(destination)), [destination]);
+
+  const routeHazards = useMemo(
+    () => (route ? findHazardsAlongRoute(route, areaHazards, corridorKm) : []),
+    [route, areaHazards, corridorKm]
+  );
+
+  const planRoute = async () => {
+    if (!origin || !destination) return;
+    setPlanning(true);
+    try {
+      onRouteChange(await provider.getRoute(origin, destination));
+    } catch (error) {
+      console.error('Error planning route:', error);
+      onRouteChange(null);
+      toast({
+        title: "Routing Failed",
+        description: error instanceof Error ? error.message : "Could not plan a route",
+        variant: "destructive",
+      });
+    } finally {
+      setPlanning(false);
+    }
+  };
+
+  const clearRoute = () => {
+    onEndpointChange('origin', null);
+    onEndpointChange('destination', null);
+    onRouteChange(null);
+    onPickTargetChange(null);
+  };
+
+  const renderEndpoint = (endpoint: RouteEndpoint, label: string, value: string, setValue: (v: string) => void) => (
+    <div className="space-y-1">
+      <Label htmlFor={`route-${endpoint}`}>{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={`route-${endpoint}`}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={() => onEndpointChange(endpoint, parsePoint(value))}
+          placeholder="lat, lon"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          title="Use my location"
+          disabled={!currentLocation}
+          onClick={() => onEndpointChange(endpoint, currentLocation && { lat: currentLocation.lat, lon: currentLocation.lon })}
+        >
+          <LocateFixed className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant={pickTarget === endpoint ? 'default' : 'outline'}
+          size="icon"
+          title="Pick on map"
+          onClick={() => onPickTargetChange(pickTarget === endpoint ? null : endpoint)}
+        >
+          <Crosshair className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="border-primary/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RouteIcon className="h-5 w-5 text-primary" />
+          Route Planner
+        </CardTitle>
+        <CardDescription>
+          {!provider.isConfigured
+            ? 'Route planning is not set up on this server'
+            : pickTarget
+              ? `Tap the map to set the ${pickTarget}`
+              : 'Check a route for hazards before you leave'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {renderEndpoint('origin', 'From', originText, setOriginText)}
+        {renderEndpoint('destination', 'To', destinationText, setDestinationText)}
+
+        <div className="flex gap-2">
+          <Select value={String(corridorKm)} onValueChange={(value) => setCorridorKm(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CORRIDOR_OPTIONS.map((km) => (
+                <SelectItem key={km} value={String(km)}>
+                  Within {km * 1000} m
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={planRoute}
+            disabled={!origin || !destination || planning || !provider.isConfigured}
+            className="flex-1"
+          >
+            {(planning || areaQuery.isFetching) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Plan route
+          </Button>
+          {(origin || destination || route) && (
+            <Button variant="outline" size="icon" onClick={clearRoute} title="Clear route">
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+
+        {route && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {route.distanceKm.toFixed(1)} km • about {formatEta(route.durationSeconds)} •{' '}
+              {routeHazards.length} hazard{routeHazards.length !== 1 ? 's' : ''} on the way
+            </p>
+            {routeHazards.map(({ hazard, distanceAlongKm, offsetKm }) => (
+              <Link
+                key={hazard._id}
+                to={`/hazards/${hazard._id}`}
+                className="flex items-center justify-between gap-2 p-3 border rounded-lg hover:border-primary/50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <Badge variant="outline" className="capitalize">{hazard.hazard_type}</Badge>
+                  <p className="text-xs text-muted-foreground truncate mt-1">{hazard.description}</p>
+                </div>
+                <div className="text-right text-xs text-muted-foreground flex-shrink-0">
+                  <p className="font-medium text-foreground">at {distanceAlongKm.toFixed(1)} km</p>
+                  <p>{Math.round(offsetKm * 1000)} m off route</p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoutePlanner;
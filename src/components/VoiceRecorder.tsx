@@ -2,18 +2,31 @@ import { useState, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Mic, Square, Play, Upload, Loader2 } from 'lucide-react';
-import { hazardAPI } from '@/lib/api';
+import { Location } from '@/lib/api';
+import { VoiceReport } from '@/lib/reports';
 import { useLocation } from '@/contexts/LocationContext';
+import { useReportQueue } from '@/contexts/ReportQueueContext';
 import { useToast } from '@/hooks/use-toast';
+import PhotoPicker from '@/components/PhotoPicker';
+
+// Where and when the hazard was seen, captured when recording stops
+type Capture = Omit<VoiceReport, 'audio' | 'photos'>;
+
+// Reports with a GPS fix less precise than this (in meters) are rejected
+const MAX_REPORT_ACCURACY = Number(import.meta.env.VITE_MAX_REPORT_ACCURACY) || 100;
 
 const VoiceRecorder = ({ onHazardReported }: { onHazardReported: () => void }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [audioBlob, setAudioBlob] = useState<Blob | null>(null);
   const [audioUrl, setAudioUrl] = useState<string>('');
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [photos, setPhotos] = useState<Blob[]>([]);
+  const [photoLocation, setPhotoLocation] = useState<Location | null>(null);
   const [uploading, setUploading] = useState(false);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const { currentLocation } = useLocation();
+  const { submitReport } = useReportQueue();
   const { toast } = useToast();
 
   const startRecording = async () => {
@@ -71,6 +84,14 @@ const VoiceRecorder = ({ onHazardReported }: { onHazardReported: () => void }) =
     if (mediaRecorderRef.current && isRecording) {
       mediaRecorderRef.current.stop();
       setIsRecording(false);
+      if (currentLocation) {
+        setCapture({
+          lat: currentLocation.lat,
+          lon: currentLocation.lon,
+          accuracy: currentLocation.accuracy,
+          captured_at: new Date().toISOString(),
+        });
+      }
       toast({
         title: "Recording Stopped",
         description: "Preview your recording before uploading",
@@ -78,8 +99,25 @@ const VoiceRecorder = ({ onHazardReported }: { onHazardReported: () => void }) =
     }
   };
 
+  const resetRecorder = () => {
+    setAudioBlob(null);
+    setAudioUrl('');
+    setCapture(null);
+    setPhotos([]);
+    setPhotoLocation(null);
+    audioChunksRef.current = [];
+  };
+
   const uploadAudio = async () => {
-    if (!audioBlob || !currentLocation) {
+    // Photo EXIF GPS is only a fallback for when the device has no fix
+    const fallbackLocation = currentLocation || photoLocation;
+    const location = capture || (fallbackLocation && {
+      lat: fallbackLocation.lat,
+      lon: fallbackLocation.lon,
+      accuracy: fallbackLocation.accuracy,
+      captured_at: new Date().toISOString(),
+    });
+    if (!audioBlob || !location) {
       toast({
         title: "Upload Failed",
         description: "Missing audio or location data",
@@ -87,36 +125,51 @@ const VoiceRecorder = ({ onHazardReported }: { onHazardReported: () => void }) =
       });
       return;
     }
+    if (location.accuracy && location.accuracy > MAX_REPORT_ACCURACY) {
+      toast({
+        title: "Location Too Imprecise",
+        description: `Your position is only accurate to ${Math.round(location.accuracy)} m (needs ${MAX_REPORT_ACCURACY} m). Wait for a better GPS fix and record again.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const report: VoiceReport = { audio: audioBlob, ...location, photos };
 
     setUploading(true);
     try {
-      const formData = new FormData();
-      // Determine file extension based on blob type
-      const extension = audioBlob.type.includes('wav') ? 'wav' : 'webm';
-      formData.append('file', audioBlob, `hazard_report.${extension}`);
-      formData.append('lat', currentLocation.lat.toString());
-      formData.append('lon', currentLocation.lon.toString());
-
-      const response = await hazardAPI.reportVoice(formData);
-      
-      toast({
-        title: "Hazard Reported Successfully",
-        description: `"${response.data.description}" - Classified as: ${response.data.classified_as} (${response.data.confidence}% confidence)`,
-      });
-      
-      // Reset recorder
-      setAudioBlob(null);
-      setAudioUrl('');
-      audioChunksRef.current = [];
-      
-      // Notify parent to refresh hazards
-      onHazardReported();
-    } catch (error: any) {
-      console.error('Error uploading audio:', error);
-      const errorMsg = error.response?.data?.error || "Could not upload hazard report. Please try again.";
+      const outcome = await submitReport(report);
+
+      if (outcome.status === 'sent') {
+        const { description, classified_as, confidence } = outcome.result;
+        toast({
+          title: "Hazard Reported Successfully",
+          description: `"${description}" - Classified as: ${classified_as} (${confidence}% confidence)`,
+        });
+        resetRecorder();
+        // Notify parent to refresh hazards
+        onHazardReported();
+      } else if (outcome.status === 'queued') {
+        toast({
+          title: "Saved Offline",
+          description:
+            outcome.reason === 'auth'
+              ? "Your report will be sent once you sign in again."
+              : "No connection right now. Your report will be sent automatically.",
+        });
+        resetRecorder();
+      } else {
+        toast({
+          title: "Upload Failed",
+          description: outcome.error,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error saving report:', error);
       toast({
         title: "Upload Failed",
-        description: errorMsg,
+        description: "Could not upload or save the report. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -155,6 +208,7 @@ const VoiceRecorder = ({ onHazardReported }: { onHazardReported: () => void }) =
         {audioUrl && !isRecording && (
           <div className="space-y-3">
             <audio controls src={audioUrl} className="w-full" />
+            <PhotoPicker photos={photos} onChange={setPhotos} onGpsLocation={setPhotoLocation} />
             <div className="flex gap-2">
               <Button onClick={uploadAudio} disabled={uploading} className="flex-1">
                 {uploading ? (
@@ -170,10 +224,7 @@ const VoiceRecorder = ({ onHazardReported }: { onHazardReported: () => void }) =
                 )}
               </Button>
               <Button
-                onClick={() => {
-                  setAudioBlob(null);
-                  setAudioUrl('');
-                }}
+                onClick={resetRecorder}
                 variant="outline"
               >
                 Clear
@@ -184,7 +235,9 @@ const VoiceRecorder = ({ onHazardReported }: { onHazardReported: () => void }) =
 
         {!currentLocation && (
           <p className="text-sm text-muted-foreground text-center">
-            📍 Waiting for location...
+            {photoLocation
+              ? '📍 Using the location from your photo'
+              : '📍 Waiting for location...'}
           </p>
         )}
       </CardContent>
@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Circle, CircleMarker, Polygon, Polyline, Tooltip, useMapEvents } from 'react-leaflet';
+import { Location, WatchZoneShape } from '@/lib/api';
+import { calculateDistance } from '@/lib/geo';
+import { MIN_POLYGON_POINTS } from '@/lib/zones';
+import { Button } from '@/components/ui/button';
+
+const ZONE_COLOR = '#8b5cf6';
+const DRAFT_COLOR = '#2563eb';
+// How close (in pixels) a click must be to the first corner to close a polygon
+const CLOSE_POLYGON_PX = 12;
+
+interface ZoneShapeProps {
+  shape: WatchZoneShape;
+  name?: string;
+  draft?: boolean; // drawn but not saved yet
+}
+
+export const ZoneShape = ({ shape, name, draft = false }: ZoneShapeProps) => {
+  const pathOptions = { color: draft ? DRAFT_COLOR : ZONE_COLOR, weight: 2, dashArray: '6 4', fillOpacity: 0.08 };
+  const label = name && <Tooltip sticky>{name}</Tooltip>;
+  return shape.type === 'circle' ? (
+    <Circle center={[shape.center.lat, shape.center.lon]} radius={shape.radius_km * 1000} pathOptions={pathOptions}>
+      {label}
+    </Circle>
+  ) : (
+    <Polygon positions={shape.points.map((point) => [point.lat, point.lon])} pathOptions={pathOptions}>
+      {label}
+    </Polygon>
+  );
+};
+
+export type ZoneDrawMode = 'polygon' | 'circle';
+
+interface ZoneDrawerProps {
+  mode: ZoneDrawMode;
+  onDrawn: (shape: WatchZoneShape) => void;
+  onCancel?: () => void;
+}
+
+// Polygons: click to add corners, then click the first corner (or press
+// Enter) to close. Circles: click the centre, then click the edge.
+export const ZoneDrawer = ({ mode, onDrawn, onCancel }: ZoneDrawerProps) => {
+  const [points, setPoints] = useState<Location[]>([]);
+  const [cursor, setCursor] = useState<Location | null>(null);
+
+  const finishPolygon = () => {
+    if (points.length < MIN_POLYGON_POINTS) return;
+    onDrawn({ type: 'polygon', points });
+    setPoints([]);
+  };
+
+  const map = useMapEvents({
+    click: (e) => {
+      // The hint bar sits inside the map container
+      if ((e.originalEvent.target as Element | null)?.closest?.('[data-zone-hint]')) return;
+      const point = { lat: e.latlng.lat, lon: e.latlng.lng };
+      if (mode === 'circle') {
+        if (points.length === 0) {
+          setPoints([point]);
+        } else {
+          onDrawn({ type: 'circle', center: points[0], radius_km: calculateDistance(points[0], point) });
+          setPoints([]);
+        }
+        return;
+      }
+      const first = points[0];
+      const closesPolygon =
+        first &&
+        points.length >= MIN_POLYGON_POINTS &&
+        map.latLngToContainerPoint([first.lat, first.lon]).distanceTo(e.containerPoint) <= CLOSE_POLYGON_PX;
+      if (closesPolygon) finishPolygon();
+      else setPoints((current) => [...current, point]);
+    },
+    mousemove: (e) => setCursor({ lat: e.latlng.lat, lon: e.latlng.lng }),
+  });
+
+  // Start over when switching between polygon and circle
+  useEffect(() => setPoints([]), [mode]);
+
+  // Double clicks add corners rather than zooming in
+  useEffect(() => {
+    map.doubleClickZoom.disable();
+    return () => {
+      map.doubleClickZoom.enable();
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setPoints([]);
+        onCancel?.();
+      } else if (e.key === 'Enter' && mode === 'polygon') {
+        finishPolygon();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const draftOptions = { color: DRAFT_COLOR, weight: 2, dashArray: '4 4' };
+
+  return (
+    <>
+      {mode === 'circle' && points[0] && cursor && (
+        <Circle
+          center={[points[0].lat, points[0].lon]}
+          radius={calculateDistance(points[0], cursor) * 1000}
+          pathOptions={{ ...draftOptions, fillOpacity: 0.1 }}
+        />
+      )}
+      {mode === 'polygon' && points.length > 0 && (
+        <Polyline
+          positions={[...points, ...(cursor ? [cursor] : [])].map((point) => [point.lat, point.lon])}
+          pathOptions={draftOptions}
+        />
+      )}
+      {points.map((point, index) => (
+        <CircleMarker
+          key={index}
+          center={[point.lat, point.lon]}
+          radius={index === 0 ? 6 : 4}
+          pathOptions={{ color: 'white', weight: 2, fillColor: DRAFT_COLOR, fillOpacity: 1 }}
+        />
+      ))}
+      <div
+        data-zone-hint
+        className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] bg-card/95 border rounded-lg shadow-lg px-3 py-2 flex items-center gap-2 text-xs"
+      >
+        <span>
+          {mode === 'circle'
+            ? points.length === 0 ? 'Click the centre of the zone' : 'Click the edge of the zone'
+            : points.length < MIN_POLYGON_POINTS
+              ? 'Click to add corners'
+              : 'Click the first corner or press Enter to finish'}
+        </span>
+        {mode === 'polygon' && (
+          <Button size="sm" className="h-7" disabled={points.length < MIN_POLYGON_POINTS} onClick={finishPolygon}>
+            Finish
+          </Button>
+        )}
+        {onCancel && (
+          <Button size="sm" variant="ghost" className="h-7" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </>
+  );
+};
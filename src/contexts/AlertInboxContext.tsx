@@ -0,0 +1,120 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { InboxAlert, notificationsAPI } from '@/lib/api';
+import { alertInbox, StoredAlert } from '@/lib/inbox';
+import { useAuth } from './AuthContext';
+import { useRealtime } from './RealtimeContext';
+
+interface AlertInboxContextType {
+  alerts: StoredAlert[];
+  unreadCount: number;
+  addAlert: (alert: InboxAlert) => void;
+  markRead: (ids: string[]) => void;
+  markAllRead: () => void;
+}
+
+const AlertInboxContext = createContext<AlertInboxContextType | undefined>(undefined);
+
+// Keeps the hazard alerts shown to the driver in IndexedDB so one that was
+// dismissed, or arrived while they looked away, can still be found later.
+// The dashboard adds them as it shows them, after its radius, direction and
+// preference filters, so city-wide broadcasts do not fill the inbox.
+export const AlertInboxProvider = ({ children }: { children: ReactNode }) => {
+  const [alerts, setAlerts] = useState<StoredAlert[]>([]);
+  const syncingRef = useRef(false);
+  const { isAuthenticated } = useAuth();
+  const { status } = useRealtime();
+
+  const reload = useCallback(async () => {
+    try {
+      setAlerts(await alertInbox.list());
+    } catch (error) {
+      console.error('Error reading alert inbox:', error);
+    }
+  }, []);
+
+  // Sends read states made on this device, then merges in alerts the server
+  // kept for us (e.g. ones received on another device or while offline)
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !isAuthenticated || !navigator.onLine) return;
+    syncingRef.current = true;
+    try {
+      const pending = (await alertInbox.list()).filter((alert) => alert.read_pending).map((alert) => alert.id);
+      if (pending.length > 0) {
+        await notificationsAPI.markRead(pending);
+        await alertInbox.markSynced(pending);
+      }
+      const response = await notificationsAPI.getNotifications();
+      for (const alert of response.data) {
+        await alertInbox.add(alert);
+      }
+      await alertInbox.prune();
+    } catch (error) {
+      console.error('Error syncing alert inbox:', error);
+    } finally {
+      syncingRef.current = false;
+    }
+    await reload();
+  }, [isAuthenticated, reload]);
+
+  const addAlert = async (alert: InboxAlert) => {
+    try {
+      await alertInbox.add(alert);
+      await alertInbox.prune();
+    } catch (error) {
+      console.error('Error saving alert:', error);
+    }
+    await reload();
+  };
+
+  const markRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    try {
+      await alertInbox.markRead(ids);
+      await reload();
+      await notificationsAPI.markRead(ids);
+      await alertInbox.markSynced(ids);
+    } catch (error) {
+      // Still marked as pending; sent with the next sync
+      console.error('Error marking alerts read:', error);
+    }
+  };
+
+  // The previous user's alerts must not show up for the next one
+  useEffect(() => {
+    if (isAuthenticated) {
+      reload();
+    } else {
+      setAlerts([]);
+      alertInbox.clear().catch((error) => console.error('Error clearing alert inbox:', error));
+    }
+  }, [isAuthenticated, reload]);
+
+  // Catch up whenever the real-time connection (re)opens
+  useEffect(() => {
+    if (status === 'connected') sync();
+  }, [status, sync]);
+
+  const unreadCount = alerts.filter((alert) => !alert.read_at).length;
+
+  return (
+    <AlertInboxContext.Provider
+      value={{
+        alerts,
+        unreadCount,
+        addAlert,
+        markRead,
+        markAllRead: () => markRead(alerts.filter((alert) => !alert.read_at).map((alert) => alert.id)),
+      }}
+    >
+      {children}
+    </AlertInboxContext.Provider>
+  );
+};
+
+export const useAlertInbox = () => {
+  const context = useContext(AlertInboxContext);
+  if (!context) {
+    throw new Error('useAlertInbox must be used within AlertInboxProvider');
+  }
+  return context;
+};
@@ -1,11 +1,21 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authAPI, LoginData, SignupData } from '@/lib/api';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { authAPI, LoginData, SignupData, refreshSession, TOKEN_REFRESH_MARGIN_MS } from '@/lib/api';
+import {
+  getTokenExpiry,
+  getTokenRole,
+  isTokenExpired,
+  sessionEvents,
+  tokenStorage,
+  UserRole,
+} from '@/lib/auth';
 import { useToast } from '@/hooks/use-toast';
 
-interface User {
+export interface User {
   user_id: string;
   name: string;
   token: string;
+  role: UserRole; // from the token's `role` claim
 }
 
 interface AuthContextType {
@@ -18,26 +28,112 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// setTimeout overflows past ~24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const createUser = (user_id: string, name: string, token: string): User => ({
+  user_id,
+  name,
+  token,
+  role: getTokenRole(token),
+});
+
+const clearStoredSession = () => {
+  tokenStorage.clear();
+  localStorage.removeItem('user_id');
+  localStorage.removeItem('name');
+};
+
+// Read synchronously so route guards know about a stored session on the
+// very first render. An expired token is still worth keeping if it can be
+// refreshed; leftovers of a session that cannot be restored are dropped.
+const loadStoredUser = (): User | null => {
+  const token = tokenStorage.getToken();
+  const user_id = localStorage.getItem('user_id');
+  const restorable = token && user_id && (!isTokenExpired(token) || tokenStorage.getRefreshToken());
+  if (!restorable) {
+    clearStoredSession();
+    return null;
+  }
+  return createUser(user_id, localStorage.getItem('name') || '', token);
+};
+
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(loadStoredUser);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Cached queries (watch zones, moderation queue, ...) belong to this user and
+  // must not leak into the next session on a shared device
+  const clearSession = useCallback(() => {
+    clearStoredSession();
+    setUser(null);
+    queryClient.clear();
+  }, [queryClient]);
+
+  const expireSession = useCallback(() => {
+    clearSession();
+    toast({
+      title: "Session Expired",
+      description: "Please log in again.",
+      variant: "destructive",
+    });
+  }, [clearSession, toast]);
 
+  // The API layer refreshes tokens on its own; keep the user (and with it the
+  // socket connection) in step
+  useEffect(
+    () =>
+      sessionEvents.subscribe((event) => {
+        if (event.type === 'refreshed') {
+          setUser((prev) => (prev ? createUser(prev.user_id, prev.name, event.token) : prev));
+        } else {
+          expireSession();
+        }
+      }),
+    [expireSession]
+  );
+
+  // Refresh shortly before the token expires so the socket never holds a
+  // stale one. Without a refresh token the session simply ends.
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    const user_id = localStorage.getItem('user_id');
-    const name = localStorage.getItem('name');
-    if (token && user_id) {
-      setUser({ user_id, name: name || '', token });
-    }
-  }, []);
+    if (!user?.token) return;
+    const expiry = getTokenExpiry(user.token);
+    if (expiry === null) return;
+
+    const canRefresh = !!tokenStorage.getRefreshToken();
+    const dueAt = expiry - (canRefresh ? TOKEN_REFRESH_MARGIN_MS : 0);
+    let timer: ReturnType<typeof setTimeout>;
+
+    // Tokens that live longer than one timer can wait are checked again when
+    // the capped timer fires, rather than being treated as due
+    const schedule = () => {
+      const delay = dueAt - Date.now();
+      if (delay > MAX_TIMER_MS) {
+        timer = setTimeout(schedule, MAX_TIMER_MS);
+        return;
+      }
+      timer = setTimeout(() => {
+        if (canRefresh) {
+          // Failures are announced through sessionEvents
+          refreshSession().catch((error) => console.error('Error refreshing session:', error));
+        } else {
+          expireSession();
+        }
+      }, Math.max(delay, 0));
+    };
+    schedule();
+
+    return () => clearTimeout(timer);
+  }, [user?.token, expireSession]);
 
   const login = async (data: LoginData) => {
     try {
       const response = await authAPI.login(data);
-      const { token } = response.data;
-      localStorage.setItem('token', token);
+      const { token, refresh_token } = response.data;
+      tokenStorage.set(token, refresh_token);
       localStorage.setItem('user_id', data.user_id);
-      setUser({ user_id: data.user_id, name: '', token });
+      setUser(createUser(data.user_id, '', token));
       toast({
         title: "Login Successful",
         description: `Welcome back, ${data.user_id}!`,
@@ -59,11 +155,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       const response = await authAPI.signup(data);
       console.log('✅ Signup response:', response.data);
       
-      const { token } = response.data;
-      localStorage.setItem('token', token);
+      const { token, refresh_token } = response.data;
+      tokenStorage.set(token, refresh_token);
       localStorage.setItem('user_id', data.user_id);
       localStorage.setItem('name', data.name);
-      setUser({ user_id: data.user_id, name: data.name, token });
+      setUser(createUser(data.user_id, data.name, token));
       toast({
         title: "Signup Successful",
         description: `Welcome, ${data.name}!`,
@@ -91,10 +187,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const logout = () => {
-    localStorage.removeItem('token');
-    localStorage.removeItem('user_id');
-    localStorage.removeItem('name');
-    setUser(null);
+    clearSession();
     toast({
       title: "Logged Out",
       description: "You have been logged out successfully.",
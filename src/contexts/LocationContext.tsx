@@ -1,7 +1,12 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { hazardAPI, Location } from '@/lib/api';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Location } from '@/lib/api';
+import { calculateDistance } from '@/lib/geo';
+import { useUpdateLocation } from '@/hooks/use-hazards';
 import { useAuth } from './AuthContext';
 
+// Only tell the server about a new position once we have moved this far
+const MIN_UPDATE_DISTANCE_KM = 0.05;
+
 interface LocationContextType {
   currentLocation: Location | null;
   updateLocation: (location: Location) => void;
@@ -10,57 +15,62 @@ interface LocationContextType {
 
 const LocationContext = createContext<LocationContextType | undefined>(undefined);
 
+const toLocation = (position: GeolocationPosition): Location => ({
+  lat: position.coords.latitude,
+  lon: position.coords.longitude,
+  accuracy: position.coords.accuracy,
+  // Browsers report NaN/null heading when stationary
+  heading: Number.isFinite(position.coords.heading) ? position.coords.heading : null,
+  speed: Number.isFinite(position.coords.speed) ? position.coords.speed : null,
+  timestamp: position.timestamp,
+});
+
 export const LocationProvider = ({ children }: { children: ReactNode }) => {
   const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
   const [locationError, setLocationError] = useState<string | null>(null);
+  const lastSentRef = useRef<Location | null>(null);
   const { isAuthenticated } = useAuth();
+  const sendLocation = useUpdateLocation();
 
   const updateLocation = (location: Location) => {
     setCurrentLocation(location);
-    if (isAuthenticated) {
-      hazardAPI.updateLocation(location).catch(console.error);
+    if (!isAuthenticated) return;
+
+    const lastSent = lastSentRef.current;
+    const moved = lastSent ? calculateDistance(lastSent, location) : Infinity;
+    if (moved >= MIN_UPDATE_DISTANCE_KM) {
+      lastSentRef.current = location;
+      sendLocation.mutate(location);
     }
   };
 
   useEffect(() => {
     if (!isAuthenticated) return;
+    lastSentRef.current = null;
 
-    // Get initial location
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const location = {
-            lat: position.coords.latitude,
-            lon: position.coords.longitude,
-          };
-          updateLocation(location);
-        },
-        (error) => {
-          console.error('Error getting location:', error);
-          setLocationError('Could not get your location. Please enable location services.');
-        }
-      );
+    if (!navigator.geolocation) {
+      setLocationError('Location services are not available in this browser.');
+      return;
     }
 
-    // Update location every 30 seconds
-    const intervalId = setInterval(() => {
-      if (navigator.geolocation) {
-        navigator.geolocation.getCurrentPosition(
-          (position) => {
-            const location = {
-              lat: position.coords.latitude,
-              lon: position.coords.longitude,
-            };
-            updateLocation(location);
-          },
-          (error) => {
-            console.error('Error updating location:', error);
-          }
-        );
+    // Continuous tracking instead of polling
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        setLocationError(null);
+        updateLocation(toLocation(position));
+      },
+      (error) => {
+        console.error('Error watching location:', error);
+        setLocationError('Could not get your location. Please enable location services.');
+      },
+      {
+        enableHighAccuracy: true,
+        maximumAge: 5000,
+        timeout: 30000,
       }
-    }, 30000);
+    );
 
-    return () => clearInterval(intervalId);
+    return () => navigator.geolocation.clearWatch(watchId);
   }, [isAuthenticated]);
 
   return (
@@ -0,0 +1,86 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { userAPI, AlertPreferences, getErrorMessage } from '@/lib/api';
+import { DEFAULT_PREFERENCES } from '@/lib/preferences';
+import { useAuth } from './AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+const STORAGE_KEY = 'alert_preferences';
+
+interface PreferencesContextType {
+  preferences: AlertPreferences;
+  updatePreferences: (preferences: AlertPreferences) => Promise<void>;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+// Last known preferences, so alerts are filtered correctly before the
+// server responds or while offline
+const loadCached = (): AlertPreferences => {
+  try {
+    const cached = localStorage.getItem(STORAGE_KEY);
+    return cached ? { ...DEFAULT_PREFERENCES, ...JSON.parse(cached) } : DEFAULT_PREFERENCES;
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const PreferencesProvider = ({ children }: { children: ReactNode }) => {
+  const [preferences, setPreferences] = useState<AlertPreferences>(loadCached);
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const cache = (next: AlertPreferences) => {
+    setPreferences(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  // Preferences belong to the signed-in user; the next one on a shared
+  // device starts from the defaults until theirs arrive
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setPreferences(DEFAULT_PREFERENCES);
+      localStorage.removeItem(STORAGE_KEY);
+      return;
+    }
+
+    userAPI
+      .getPreferences()
+      .then((response) => cache({ ...DEFAULT_PREFERENCES, ...response.data }))
+      .catch((error) => console.error('Error fetching preferences:', error));
+  }, [isAuthenticated]);
+
+  const updatePreferences = async (next: AlertPreferences) => {
+    const previous = preferences;
+    cache(next);
+    try {
+      const response = await userAPI.updatePreferences(next);
+      cache({ ...DEFAULT_PREFERENCES, ...response.data });
+      toast({
+        title: "Settings Saved",
+        description: "Your alert preferences have been updated.",
+      });
+    } catch (error) {
+      cache(previous);
+      toast({
+        title: "Save Failed",
+        description: getErrorMessage(error, "Could not save your alert preferences"),
+        variant: "destructive",
+      });
+      throw error;
+    }
+  };
+
+  return (
+    <PreferencesContext.Provider value={{ preferences, updatePreferences }}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used within PreferencesProvider');
+  }
+  return context;
+};
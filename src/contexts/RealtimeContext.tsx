@@ -0,0 +1,156 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { io, Socket } from 'socket.io-client';
+import { API_BASE_URL, refreshSession } from '@/lib/api';
+import {
+  ConnectionStatus,
+  createEventDeduper,
+  ReplayRequest,
+  REPLAY_EVENT,
+  SERVER_EVENTS,
+  ServerEventHandler,
+  ServerEventName,
+} from '@/lib/realtime';
+import { useAuth } from './AuthContext';
+
+interface RealtimeContextType {
+  status: ConnectionStatus;
+  subscribe: <E extends ServerEventName>(event: E, handler: ServerEventHandler<E>) => () => void;
+}
+
+type Listeners = { [E in ServerEventName]?: Set<ServerEventHandler<E>> };
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+export const RealtimeProvider = ({ children }: { children: ReactNode }) => {
+  const [status, setStatus] = useState<ConnectionStatus>('offline');
+  const listenersRef = useRef<Listeners>({});
+  // Survives reconnects (and token refreshes) so nothing sent in a gap is
+  // lost, but not a change of user: their event streams are unrelated
+  const lastEventIdRef = useRef<string | null>(null);
+  const socketRef = useRef<Socket | null>(null);
+  const { user } = useAuth();
+  const userId = user?.user_id;
+  const token = user?.token;
+  // Read on every handshake, so reconnects always use the latest token
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+  const isAuthenticated = !!token;
+
+  useEffect(() => {
+    lastEventIdRef.current = null;
+  }, [userId]);
+
+  // One long-lived connection per login; components subscribe to it
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setStatus('offline');
+      return;
+    }
+
+    const socket: Socket = io(API_BASE_URL, {
+      auth: (callback) => callback({ token: tokenRef.current }),
+    });
+    socketRef.current = socket;
+    const isDuplicate = createEventDeduper();
+    let rejectedToken: string | undefined;
+    setStatus(navigator.onLine ? 'reconnecting' : 'offline');
+
+    socket.on('connect', () => {
+      console.log('✅ Connected to SocketIO');
+      setStatus('connected');
+      // The server could not restore the session by itself, so ask for
+      // whatever was sent while we were away
+      if (lastEventIdRef.current && !socket.recovered) {
+        const request: ReplayRequest = { since: lastEventIdRef.current };
+        socket.emit(REPLAY_EVENT, request);
+      }
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.log('❌ Disconnected from SocketIO:', reason);
+      setStatus(socket.active && navigator.onLine ? 'reconnecting' : 'offline');
+    });
+
+    socket.on('connect_error', (error) => {
+      console.error('SocketIO connection error:', error.message);
+      setStatus(socket.active && navigator.onLine ? 'reconnecting' : 'offline');
+      // The server refuses the handshake outright for a bad token; a
+      // successful refresh re-authenticates through the effect below. Each
+      // token gets one attempt so a misbehaving server cannot cause a loop.
+      if (!socket.active && tokenRef.current !== rejectedToken) {
+        rejectedToken = tokenRef.current;
+        refreshSession().catch((refreshError) => console.error('Error refreshing session:', refreshError));
+      }
+    });
+
+    SERVER_EVENTS.forEach((event) => {
+      socket.on(event, (data) => {
+        if (isDuplicate(data?.event_id)) return;
+        if (data?.event_id) lastEventIdRef.current = data.event_id;
+        listenersRef.current[event]?.forEach((handler) => handler(data));
+      });
+    });
+
+    const handleOffline = () => setStatus('offline');
+    const handleOnline = () => {
+      setStatus('reconnecting');
+      if (!socket.connected) socket.connect();
+    };
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+      socket.disconnect();
+      socketRef.current = null;
+    };
+  }, [isAuthenticated]);
+
+  // Re-authenticate the open connection whenever the token is refreshed
+  const previousTokenRef = useRef(token);
+  useEffect(() => {
+    const socket = socketRef.current;
+    if (socket && token && previousTokenRef.current && token !== previousTokenRef.current) {
+      socket.disconnect().connect();
+    }
+    previousTokenRef.current = token;
+  }, [token]);
+
+  const subscribe = useCallback(<E extends ServerEventName>(event: E, handler: ServerEventHandler<E>) => {
+    const listeners = listenersRef.current as Record<E, Set<ServerEventHandler<E>> | undefined>;
+    const handlers = listeners[event] ?? new Set<ServerEventHandler<E>>();
+    handlers.add(handler);
+    listeners[event] = handlers;
+    return () => {
+      handlers.delete(handler);
+    };
+  }, []);
+
+  return (
+    <RealtimeContext.Provider value={{ status, subscribe }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (!context) {
+    throw new Error('useRealtime must be used within RealtimeProvider');
+  }
+  return context;
+};
+
+// Subscribes for the lifetime of the component. The latest `handler` is
+// always called, so it can close over fresh state without resubscribing.
+export const useRealtimeEvent = <E extends ServerEventName>(event: E, handler: ServerEventHandler<E>) => {
+  const { subscribe } = useRealtime();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(
+    () => subscribe(event, (data) => handlerRef.current(data)),
+    [event, subscribe]
+  );
+};
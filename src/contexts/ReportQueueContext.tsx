@@ -0,0 +1,177 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { hazardAPI, getErrorMessage, isAuthError, isRetryableError, VoiceReportResult } from '@/lib/api';
+import { buildVoiceReportForm, PendingReport, reportQueue, VoiceReport } from '@/lib/reports';
+import { useAuth } from './AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+// 'queued' reports stay in IndexedDB and are retried later, 'rejected' ones
+// were refused by the server and dropped
+export type UploadOutcome =
+  | { status: 'sent'; result: VoiceReportResult }
+  | { status: 'queued'; reason: 'offline' | 'auth' }
+  | { status: 'rejected'; error: string };
+
+interface ReportQueueContextType {
+  pendingCount: number;
+  lastSyncAt: number | null;
+  submitReport: (report: VoiceReport) => Promise<UploadOutcome>;
+  retryNow: () => void;
+}
+
+const ReportQueueContext = createContext<ReportQueueContextType | undefined>(undefined);
+
+export const ReportQueueProvider = ({ children }: { children: ReactNode }) => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastSyncAt, setLastSyncAt] = useState<number | null>(null);
+  const processingRef = useRef(false);
+  // Reports being uploaded right now, so the queue does not send them twice
+  const inFlightRef = useRef(new Set<string>());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set when the server refused our credentials; nothing is retried until
+  // the session changes, as every upload would fail the same way
+  const authBlockedRef = useRef(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const userId = user?.user_id;
+  const token = user?.token;
+
+  // Read by timers and uploads that outlive the session they started in
+  const userIdRef = useRef(userId);
+  userIdRef.current = userId;
+
+  const refreshCount = useCallback(async () => {
+    const owner = userIdRef.current;
+    try {
+      setPendingCount(owner ? await reportQueue.count(owner) : 0);
+    } catch (error) {
+      console.error('Error reading report queue:', error);
+    }
+  }, []);
+
+  const uploadReport = useCallback(async (report: PendingReport): Promise<UploadOutcome> => {
+    inFlightRef.current.add(report.id);
+    try {
+      const response = await hazardAPI.reportVoice(buildVoiceReportForm(report));
+      await reportQueue.remove(report.id);
+      return { status: 'sent', result: response.data };
+    } catch (error) {
+      // A session that ran out is not the report's fault: keep it, without
+      // backoff, until the user signs in again
+      if (isAuthError(error)) {
+        authBlockedRef.current = true;
+        return { status: 'queued', reason: 'auth' };
+      }
+      if (isRetryableError(error)) {
+        await reportQueue.markFailed(report, getErrorMessage(error, 'Network error'));
+        return { status: 'queued', reason: 'offline' };
+      }
+      await reportQueue.remove(report.id);
+      return { status: 'rejected', error: getErrorMessage(error, "The server rejected the report") };
+    } finally {
+      inFlightRef.current.delete(report.id);
+    }
+  }, []);
+
+  // Uploads every report that is due (or all of them when `force` is set),
+  // then schedules the next attempt for whatever is left
+  const processQueue = useCallback(async (force = false) => {
+    const owner = userIdRef.current;
+    if (processingRef.current || !owner || authBlockedRef.current || !navigator.onLine) return;
+    processingRef.current = true;
+    if (timerRef.current) clearTimeout(timerRef.current);
+
+    let synced = 0;
+    try {
+      const reports = await reportQueue.list(owner);
+      reports.sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+
+      for (const report of reports) {
+        if (inFlightRef.current.has(report.id)) continue;
+        if (!force && report.next_attempt_at > Date.now()) continue;
+        const outcome = await uploadReport(report);
+        if (outcome.status === 'sent') {
+          synced++;
+        } else if (outcome.status === 'rejected') {
+          toast({
+            title: "Queued Report Rejected",
+            description: outcome.error,
+            variant: "destructive",
+          });
+        } else if (outcome.reason === 'auth') {
+          // The rest would fail the same way
+          break;
+        }
+      }
+
+      // The user signed out (or the server refused them) while we were busy
+      if (userIdRef.current !== owner) return;
+      const remaining = await reportQueue.list(owner);
+      setPendingCount(remaining.length);
+      if (remaining.length > 0 && !authBlockedRef.current) {
+        const nextAttempt = Math.min(...remaining.map((report) => report.next_attempt_at));
+        timerRef.current = setTimeout(() => processQueue(), Math.max(nextAttempt - Date.now(), 1000));
+      }
+    } catch (error) {
+      console.error('Error processing report queue:', error);
+    } finally {
+      processingRef.current = false;
+    }
+
+    if (synced > 0) {
+      setLastSyncAt(Date.now());
+      toast({
+        title: "Reports Uploaded",
+        description: `${synced} saved report${synced !== 1 ? 's were' : ' was'} sent.`,
+      });
+    }
+  }, [toast, uploadReport]);
+
+  // The recording is saved before the upload starts, so it survives the
+  // driver navigating away or closing the app mid-upload
+  const submitReport = async (report: VoiceReport): Promise<UploadOutcome> => {
+    if (!userId) throw new Error('Cannot queue a report without a signed-in user');
+    const pending = await reportQueue.enqueue(report, userId);
+    await refreshCount();
+    if (!navigator.onLine) return { status: 'queued', reason: 'offline' };
+
+    const outcome = await uploadReport(pending);
+    await refreshCount();
+    // Schedules the retry if the upload did not go through
+    if (outcome.status === 'queued') processQueue();
+    return outcome;
+  };
+
+  // A new session (or a refreshed token) may be allowed what the last one was not
+  useEffect(() => {
+    authBlockedRef.current = false;
+    refreshCount();
+    if (!userId) return;
+
+    processQueue();
+
+    // Connectivity is back: skip the backoff and try everything
+    const handleOnline = () => processQueue(true);
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [userId, token, processQueue, refreshCount]);
+
+  return (
+    <ReportQueueContext.Provider
+      value={{ pendingCount, lastSyncAt, submitReport, retryNow: () => processQueue(true) }}
+    >
+      {children}
+    </ReportQueueContext.Provider>
+  );
+};
+
+export const useReportQueue = () => {
+  const context = useContext(ReportQueueContext);
+  if (!context) {
+    throw new Error('useReportQueue must be used within ReportQueueProvider');
+  }
+  return context;
+};
@@ -0,0 +1,19 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { HazardFilters, parseFilters, writeFilters } from "@/lib/filters";
+
+// Filters live in the URL query string so a filtered view can be shared
+export function useHazardFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+
+  const setFilters = useCallback(
+    (next: HazardFilters) => {
+      setSearchParams((params) => writeFilters(params, next), { replace: true });
+    },
+    [setSearchParams],
+  );
+
+  return { filters, setFilters };
+}
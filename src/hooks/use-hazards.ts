@@ -0,0 +1,210 @@
+import { useCallback } from 'react';
+import {
+  keepPreviousData,
+  QueryClient,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { hazardAPI, BoundingBox, Hazard, HazardReport, Location } from '@/lib/api';
+import { mergeHazards } from '@/lib/hazards';
+import { applyFilters, HazardFilters } from '@/lib/filters';
+import { isPointInBoundingBox } from '@/lib/geo';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRealtime, useRealtimeEvent } from '@/contexts/RealtimeContext';
+
+// Only used while the socket is down; otherwise the stream keeps the cache fresh
+const FALLBACK_POLL_INTERVAL_MS = 30000;
+// Refetches of a cached viewport only ask for what changed since the last
+// one, overlapping a little to allow for clock differences with the server.
+// Deleted hazards never show up as changes, so after a while we reload in full.
+const SINCE_OVERLAP_MS = 60 * 1000;
+const FULL_RELOAD_AFTER_MS = 10 * 60 * 1000;
+
+export const hazardKeys = {
+  all: ['hazards'] as const,
+  lists: () => [...hazardKeys.all, 'list'] as const,
+  list: (bbox: BoundingBox | null) => [...hazardKeys.lists(), bbox] as const,
+  details: () => [...hazardKeys.all, 'detail'] as const,
+  detail: (id: string) => [...hazardKeys.details(), id] as const,
+  history: (id: string) => [...hazardKeys.detail(id), 'history'] as const,
+};
+
+// ------------------------------
+// Queries
+// ------------------------------
+export interface HazardListResult {
+  hazards: Hazard[]; // the ones matching the filters
+  total: number; // everything in the viewport
+}
+
+// When each viewport was last fetched; the cache's own timestamp also moves
+// with stream updates, so it cannot tell what the server has sent us
+const fetchedAt = new Map<string, { full: number; latest: number }>();
+
+const fetchHazards = async (queryClient: QueryClient, bbox: BoundingBox) => {
+  const key = JSON.stringify(bbox);
+  const cached = queryClient.getQueryData<Hazard[]>(hazardKeys.list(bbox));
+  const previous = fetchedAt.get(key);
+  const startedAt = Date.now();
+
+  if (!cached || !previous || startedAt - previous.full > FULL_RELOAD_AFTER_MS) {
+    const hazards = (await hazardAPI.getHazards({ bbox })).data;
+    fetchedAt.set(key, { full: startedAt, latest: startedAt });
+    return hazards;
+  }
+
+  const since = new Date(previous.latest - SINCE_OVERLAP_MS).toISOString();
+  const changes = (await hazardAPI.getHazards({ bbox, since })).data;
+  fetchedAt.set(key, { ...previous, latest: startedAt });
+  return mergeHazards(cached, changes);
+};
+
+// Hazards in a viewport, optionally narrowed down by the client-side filters.
+// `currentLocation` is only needed for the distance filter.
+export const useHazards = (
+  bbox: BoundingBox | null,
+  filters?: HazardFilters,
+  currentLocation: Location | null = null
+) => {
+  const { status } = useRealtime();
+  const queryClient = useQueryClient();
+
+  const select = useCallback(
+    (hazards: Hazard[]): HazardListResult => ({
+      hazards: filters ? applyFilters(hazards, filters, currentLocation) : hazards,
+      total: hazards.length,
+    }),
+    [filters, currentLocation]
+  );
+
+  return useQuery({
+    queryKey: hazardKeys.list(bbox),
+    queryFn: () => fetchHazards(queryClient, bbox!),
+    select,
+    enabled: bbox !== null,
+    // Keep showing the old viewport's hazards while the new one loads
+    placeholderData: keepPreviousData,
+    refetchInterval: status === 'connected' ? false : FALLBACK_POLL_INTERVAL_MS,
+    meta: { errorMessage: "Could not fetch hazards" },
+  });
+};
+
+export const useHazard = (id: string | undefined) =>
+  useQuery({
+    queryKey: hazardKeys.detail(id!),
+    queryFn: async () => (await hazardAPI.getHazard(id!)).data,
+    enabled: !!id,
+    meta: { errorMessage: "Could not load this hazard" },
+  });
+
+export const useHazardHistory = (id: string | undefined) =>
+  useQuery({
+    queryKey: hazardKeys.history(id!),
+    queryFn: async () => (await hazardAPI.getHazardHistory(id!)).data,
+    enabled: !!id,
+    meta: { errorMessage: "Could not load the hazard history" },
+  });
+
+// ------------------------------
+// Mutations
+// ------------------------------
+const PENDING_ID_PREFIX = 'pending-';
+
+export const isPendingHazard = (hazard: Hazard) => hazard._id.startsWith(PENDING_ID_PREFIX);
+
+// Shows the report on the map and list straight away; the server's copy
+// replaces it once the request succeeds
+export const useReportHazard = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (report: HazardReport) => (await hazardAPI.reportHazard(report)).data,
+    onMutate: async (report) => {
+      await queryClient.cancelQueries({ queryKey: hazardKeys.lists() });
+      const placeholder: Hazard = {
+        _id: `${PENDING_ID_PREFIX}${Date.now()}`,
+        user_id: user?.user_id || '',
+        hazard_type: report.hazard_type,
+        description: report.description || '',
+        severity: report.severity,
+        confidence: 100,
+        location: report.location,
+        timestamp: new Date().toISOString(),
+        status: 'active',
+      };
+      applyHazardChange(queryClient, placeholder);
+      return { placeholderId: placeholder._id };
+    },
+    onSuccess: (hazard, _report, context) => {
+      removeHazard(queryClient, context.placeholderId);
+      if (hazard?._id) applyHazardChange(queryClient, hazard);
+    },
+    onError: (_error, _report, context) => {
+      if (context) removeHazard(queryClient, context.placeholderId);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: hazardKeys.lists() }),
+    meta: {
+      errorTitle: "Report Failed",
+      errorMessage: "Could not submit hazard report. Please try again.",
+    },
+  });
+};
+
+export const useUpdateLocation = () =>
+  useMutation({
+    mutationFn: (location: Location) => hazardAPI.updateLocation(location),
+    // The next position update will try again
+    meta: { silent: true },
+  });
+
+// ------------------------------
+// Live updates
+// ------------------------------
+// Writes a changed hazard into every cached viewport that contains it, and
+// into its detail entry if one is cached
+const applyHazardChange = (queryClient: QueryClient, hazard: Hazard) => {
+  queryClient
+    .getQueriesData<Hazard[]>({ queryKey: hazardKeys.lists() })
+    .forEach(([queryKey, hazards]) => {
+      if (!hazards) return;
+      const bbox = queryKey[2] as BoundingBox | null;
+      const known = hazards.some((item) => item._id === hazard._id);
+      if (known || (bbox && isPointInBoundingBox(hazard.location, bbox))) {
+        queryClient.setQueryData<Hazard[]>(queryKey, mergeHazards(hazards, [hazard]));
+      }
+    });
+
+  queryClient.setQueryData<Hazard>(hazardKeys.detail(hazard._id), (current) =>
+    current ? { ...current, ...hazard } : current
+  );
+};
+
+const removeHazard = (queryClient: QueryClient, id: string) => {
+  queryClient.setQueriesData<Hazard[]>({ queryKey: hazardKeys.lists() }, (hazards) =>
+    hazards?.filter((hazard) => hazard._id !== id)
+  );
+};
+
+// Patches a hazard that is already cached; unknown ids are ignored
+const patchHazard = (queryClient: QueryClient, id: string, changes: Partial<Hazard>) => {
+  queryClient.setQueriesData<Hazard[]>({ queryKey: hazardKeys.lists() }, (hazards) =>
+    hazards?.map((hazard) => (hazard._id === id ? { ...hazard, ...changes } : hazard))
+  );
+  queryClient.setQueryData<Hazard>(hazardKeys.detail(id), (current) =>
+    current ? { ...current, ...changes } : current
+  );
+};
+
+// Applies socket hazard events to the query cache so lists and maps update
+// without refetching
+export const useHazardStream = () => {
+  const queryClient = useQueryClient();
+
+  useRealtimeEvent('hazard_created', ({ hazard }) => applyHazardChange(queryClient, hazard));
+  useRealtimeEvent('hazard_updated', ({ hazard }) => applyHazardChange(queryClient, hazard));
+  useRealtimeEvent('hazard_resolved', ({ hazard_id, resolved_at, resolved_by }) =>
+    patchHazard(queryClient, hazard_id, { status: 'resolved', resolved_at, resolved_by })
+  );
+};
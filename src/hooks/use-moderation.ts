@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { moderationAPI, Hazard } from '@/lib/api';
+import { hazardKeys } from '@/hooks/use-hazards';
+
+export const moderationKeys = {
+  all: ['moderation'] as const,
+  queue: () => [...moderationKeys.all, 'queue'] as const,
+  audit: () => [...moderationKeys.all, 'audit'] as const,
+};
+
+export type ModerationDecision =
+  | { type: 'approve'; id: string; note?: string }
+  | { type: 'reclassify'; id: string; hazardType: string; note?: string }
+  | { type: 'reject'; id: string; note?: string }
+  | { type: 'merge'; id: string; duplicateOf: string; note?: string };
+
+export const useModerationQueue = () =>
+  useQuery({
+    queryKey: moderationKeys.queue(),
+    queryFn: async () => (await moderationAPI.getQueue()).data,
+    meta: { errorMessage: "Could not load the review queue" },
+  });
+
+export const useModerationAudit = () =>
+  useQuery({
+    queryKey: moderationKeys.audit(),
+    queryFn: async () => (await moderationAPI.getAuditLog()).data,
+    meta: { errorMessage: "Could not load the audit trail" },
+  });
+
+const sendDecision = (decision: ModerationDecision) => {
+  switch (decision.type) {
+    case 'approve':
+      return moderationAPI.approve(decision.id, decision.note);
+    case 'reclassify':
+      return moderationAPI.reclassify(decision.id, decision.hazardType, decision.note);
+    case 'reject':
+      return moderationAPI.reject(decision.id, decision.note);
+    case 'merge':
+      return moderationAPI.merge(decision.id, decision.duplicateOf, decision.note);
+  }
+};
+
+// Every decision takes the report out of the queue. It is removed up front
+// so triage can move on to the next one without waiting for the server.
+export const useModerate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: sendDecision,
+    onMutate: async (decision) => {
+      await queryClient.cancelQueries({ queryKey: moderationKeys.queue() });
+      const previous = queryClient.getQueryData<Hazard[]>(moderationKeys.queue());
+      queryClient.setQueryData<Hazard[]>(moderationKeys.queue(), (queue) =>
+        queue?.filter((hazard) => hazard._id !== decision.id)
+      );
+      return { previous };
+    },
+    onError: (_error, _decision, context) => {
+      if (context?.previous) queryClient.setQueryData(moderationKeys.queue(), context.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: moderationKeys.all });
+      queryClient.invalidateQueries({ queryKey: hazardKeys.all });
+    },
+    meta: {
+      errorTitle: "Moderation Failed",
+      errorMessage: "Could not save the decision. The report is back in the queue.",
+    },
+  });
+};
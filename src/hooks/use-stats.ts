@@ -0,0 +1,38 @@
+import axios from 'axios';
+import { useQuery } from '@tanstack/react-query';
+import { hazardAPI, statsAPI, HazardStats, StatsQuery } from '@/lib/api';
+import { aggregateHazards } from '@/lib/analytics';
+
+export interface HazardStatsResult {
+  stats: HazardStats;
+  // 'client' means the server has no /stats endpoint and the numbers were
+  // computed from the raw hazard list
+  source: 'server' | 'client';
+}
+
+export const statsKeys = {
+  all: ['stats'] as const,
+  range: (query: StatsQuery) => [...statsKeys.all, query] as const,
+};
+
+const isMissingEndpoint = (error: unknown) =>
+  axios.isAxiosError(error) && (error.response?.status === 404 || error.response?.status === 501);
+
+const fetchStats = async (query: StatsQuery): Promise<HazardStatsResult> => {
+  try {
+    return { stats: (await statsAPI.getStats(query)).data, source: 'server' };
+  } catch (error) {
+    if (!isMissingEndpoint(error)) throw error;
+    const response = await hazardAPI.getHazards({ since: query.from });
+    return { stats: aggregateHazards(response.data, query), source: 'client' };
+  }
+};
+
+export const useHazardStats = (query: StatsQuery) =>
+  useQuery({
+    queryKey: statsKeys.range(query),
+    queryFn: () => fetchStats(query),
+    // Aggregates move slowly; no need to refetch on every focus
+    staleTime: 5 * 60 * 1000,
+    meta: { errorMessage: "Could not load analytics" },
+  });
@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { zonesAPI, WatchZone, WatchZoneInput } from '@/lib/api';
+import { useAuth } from '@/contexts/AuthContext';
+
+export const zoneKeys = {
+  all: ['zones'] as const,
+};
+
+export const useZones = () => {
+  const { isAuthenticated } = useAuth();
+
+  return useQuery({
+    queryKey: zoneKeys.all,
+    queryFn: async () => (await zonesAPI.getZones()).data,
+    enabled: isAuthenticated,
+    // Zones only change from this client, and every change invalidates them
+    staleTime: Infinity,
+    meta: { errorMessage: "Could not load your watch zones" },
+  });
+};
+
+export const useCreateZone = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (zone: WatchZoneInput) => (await zonesAPI.createZone(zone)).data,
+    onSuccess: (zone) => {
+      queryClient.setQueryData<WatchZone[]>(zoneKeys.all, (zones) => [...(zones ?? []), zone]);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: zoneKeys.all }),
+    meta: { errorTitle: "Zone Not Saved", errorMessage: "Could not save the watch zone" },
+  });
+};
+
+export const useUpdateZone = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: Partial<WatchZoneInput> }) =>
+      (await zonesAPI.updateZone(id, changes)).data,
+    onSuccess: (updated) => {
+      queryClient.setQueryData<WatchZone[]>(zoneKeys.all, (zones) =>
+        zones?.map((zone) => (zone._id === updated._id ? updated : zone))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: zoneKeys.all }),
+    meta: { errorTitle: "Zone Not Saved", errorMessage: "Could not update the watch zone" },
+  });
+};
+
+export const useDeleteZone = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => zonesAPI.deleteZone(id),
+    onSuccess: (_response, id) => {
+      queryClient.setQueryData<WatchZone[]>(zoneKeys.all, (zones) => zones?.filter((zone) => zone._id !== id));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: zoneKeys.all }),
+    meta: { errorTitle: "Zone Not Deleted", errorMessage: "Could not delete the watch zone" },
+  });
+};
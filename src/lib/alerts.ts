@@ -0,0 +1,46 @@
+import { Location } from './api';
+import { calculateBearing } from './geo';
+
+export type AlertDirection = 'ahead' | 'behind' | 'off-route' | 'unknown';
+
+export interface AlertRouting {
+  direction: AlertDirection;
+  relativeBearing: number | null; // degrees, -180..180, 0 = straight ahead
+  distanceKm: number;
+  etaSeconds: number | null;
+}
+
+// Half-angle of the cone in front of (and behind) the driver
+const AHEAD_CONE_DEG = 45;
+// Below this speed (m/s) the heading is unreliable and no ETA is given
+const MIN_MOVING_SPEED = 1;
+
+// Places a hazard relative to where the user is heading
+export const classifyAlert = (user: Location, hazard: Location, distanceKm: number): AlertRouting => {
+  const moving =
+    user.heading !== null && user.heading !== undefined &&
+    (user.speed === null || user.speed === undefined || user.speed >= MIN_MOVING_SPEED);
+
+  if (!moving) {
+    return { direction: 'unknown', relativeBearing: null, distanceKm, etaSeconds: null };
+  }
+
+  const relativeBearing = ((calculateBearing(user, hazard) - user.heading! + 540) % 360) - 180;
+  const offset = Math.abs(relativeBearing);
+  const direction: AlertDirection =
+    offset <= AHEAD_CONE_DEG ? 'ahead' : offset >= 180 - AHEAD_CONE_DEG ? 'behind' : 'off-route';
+
+  const etaSeconds =
+    direction === 'ahead' && user.speed
+      ? Math.round((distanceKm * 1000) / user.speed)
+      : null;
+
+  return { direction, relativeBearing, distanceKm, etaSeconds };
+};
+
+export const formatEta = (seconds: number) => {
+  if (seconds < 60) return 'under a minute';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
@@ -0,0 +1,129 @@
+import { DistrictStats, Hazard, HazardStats, StatsQuery } from './api';
+import { getHazardStatus, isHazardClosed } from './hazards';
+import { encodeGeohash } from './geo';
+
+const CONFIDENCE_BUCKET_SIZE = 10; // percent
+const TOP_REPORTER_COUNT = 10;
+// Hazards the server could not place in a district are grouped into
+// geohash cells of roughly 5 km instead
+const FALLBACK_DISTRICT_PRECISION = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// ------------------------------
+// Date ranges
+// ------------------------------
+export const ANALYTICS_RANGES = [
+  { label: 'Last 7 days', days: 7 },
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+];
+
+export const getRangeQuery = (days: number, now = Date.now()): StatsQuery => ({
+  from: new Date(now - days * DAY_MS).toISOString(),
+  to: new Date(now).toISOString(),
+});
+
+const toDay = (timestamp: string | number) => new Date(timestamp).toISOString().slice(0, 10);
+
+// ------------------------------
+// Client-side aggregation
+// ------------------------------
+// Mirrors what the /stats endpoint returns, for servers that do not have it
+const countBy = <T>(items: T[], key: (item: T) => string) => {
+  const counts = new Map<string, number>();
+  items.forEach((item) => counts.set(key(item), (counts.get(key(item)) || 0) + 1));
+  return counts;
+};
+
+// Mean hours from report to resolution, over the hazards that were resolved
+const getMeanResolutionHours = (hazards: Hazard[]) => {
+  const hours = hazards
+    .filter((hazard) => hazard.resolved_at)
+    .map((hazard) => (new Date(hazard.resolved_at!).getTime() - new Date(hazard.timestamp).getTime()) / HOUR_MS)
+    .filter((value) => value >= 0);
+  return hours.length ? hours.reduce((sum, value) => sum + value, 0) / hours.length : null;
+};
+
+const getDistrict = (hazard: Hazard) =>
+  hazard.district || `Area ${encodeGeohash(hazard.location, FALLBACK_DISTRICT_PRECISION)}`;
+
+// Every day in the range gets an entry, so quiet days show as zero
+const getPerDay = (hazards: Hazard[], query: StatsQuery) => {
+  const counts = countBy(hazards, (hazard) => toDay(hazard.timestamp));
+  const times = hazards.map((hazard) => new Date(hazard.timestamp).getTime());
+  const start = query.from ? new Date(query.from).getTime() : Math.min(...times);
+  const end = query.to ? new Date(query.to).getTime() : Math.max(...times);
+  if (!Number.isFinite(start) || !Number.isFinite(end)) return [];
+
+  const days: HazardStats['per_day'] = [];
+  for (let time = start; toDay(time) <= toDay(end); time += DAY_MS) {
+    const date = toDay(time);
+    days.push({ date, count: counts.get(date) || 0 });
+  }
+  return days;
+};
+
+export const aggregateHazards = (allHazards: Hazard[], query: StatsQuery = {}): HazardStats => {
+  const from = query.from ? new Date(query.from).getTime() : -Infinity;
+  const to = query.to ? new Date(query.to).getTime() : Infinity;
+  const hazards = allHazards.filter((hazard) => {
+    const time = new Date(hazard.timestamp).getTime();
+    return time >= from && time <= to;
+  });
+
+  const confidence = countBy(hazards, (hazard) => {
+    const start = Math.min(
+      Math.floor(hazard.confidence / CONFIDENCE_BUCKET_SIZE) * CONFIDENCE_BUCKET_SIZE,
+      100 - CONFIDENCE_BUCKET_SIZE
+    );
+    return `${start}-${start + CONFIDENCE_BUCKET_SIZE - 1}`;
+  });
+
+  const reporters = new Map<string, { user_id: string; name?: string; count: number }>();
+  hazards.forEach((hazard) => {
+    const reporter = reporters.get(hazard.user_id) || {
+      user_id: hazard.user_id,
+      name: hazard.reporter_name,
+      count: 0,
+    };
+    reporter.count++;
+    reporters.set(hazard.user_id, reporter);
+  });
+
+  const districts = new Map<string, Hazard[]>();
+  hazards.forEach((hazard) => {
+    const district = getDistrict(hazard);
+    districts.set(district, [...(districts.get(district) || []), hazard]);
+  });
+
+  return {
+    per_day: getPerDay(hazards, query),
+    by_type: Array.from(countBy(hazards, (hazard) => hazard.hazard_type), ([hazard_type, count]) => ({
+      hazard_type,
+      count,
+    })).sort((a, b) => b.count - a.count),
+    confidence: Array.from({ length: 100 / CONFIDENCE_BUCKET_SIZE }, (_, index) => {
+      const bucket = `${index * CONFIDENCE_BUCKET_SIZE}-${(index + 1) * CONFIDENCE_BUCKET_SIZE - 1}`;
+      return { bucket, count: confidence.get(bucket) || 0 };
+    }),
+    top_reporters: Array.from(reporters.values())
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_REPORTER_COUNT),
+    mean_resolution_hours: getMeanResolutionHours(hazards),
+    districts: Array.from(districts, ([district, items]): DistrictStats => ({
+      district,
+      total: items.length,
+      active: items.filter((hazard) => !isHazardClosed(hazard)).length,
+      resolved: items.filter((hazard) => getHazardStatus(hazard) === 'resolved').length,
+      mean_resolution_hours: getMeanResolutionHours(items),
+    })).sort((a, b) => b.total - a.total),
+  };
+};
+
+export const formatHours = (hours: number | null) => {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+};
@@ -1,9 +1,10 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { isTokenExpired, sessionEvents, tokenStorage } from './auth';
 
 // ------------------------------
 // API Base URL
 // ------------------------------
-const API_BASE_URL = import.meta.env.VITE_BASE_URL;
+export const API_BASE_URL = import.meta.env.VITE_BASE_URL;
 if (!API_BASE_URL) {
   throw new Error("VITE_BASE_URL is not defined in your .env file");
 }
@@ -23,17 +24,79 @@ const api = axios.create({
   timeout: 60000, // 60 seconds for general requests
 });
 
+// ------------------------------
+// Session Refresh
+// ------------------------------
+// Requests that must never trigger a refresh themselves
+const AUTH_PATHS = ['/login', '/signup', '/refresh'];
+// Refresh a little early so requests in flight do not race the expiry
+export const TOKEN_REFRESH_MARGIN_MS = 30000;
+
+let refreshPromise: Promise<string> | null = null;
+
+// Everything that needs a fresh token while a refresh is running waits on
+// the same promise, so only one /refresh request is ever in flight.
+// A failed refresh ends the session.
+export const refreshSession = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = (async () => {
+      const refreshToken = tokenStorage.getRefreshToken();
+      if (!refreshToken) throw new Error('No refresh token');
+      const response = await authAPI.refresh(refreshToken);
+      const { token, refresh_token } = response.data;
+      tokenStorage.set(token, refresh_token);
+      sessionEvents.emit({ type: 'refreshed', token });
+      return token;
+    })()
+      .catch((error) => {
+        tokenStorage.clear();
+        sessionEvents.emit({ type: 'expired' });
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
 // ------------------------------
 // JWT Interceptor (attach token)
 // ------------------------------
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
+api.interceptors.request.use(async (config) => {
+  let token = tokenStorage.getToken();
+  if (token && !AUTH_PATHS.includes(config.url || '') && isTokenExpired(token, TOKEN_REFRESH_MARGIN_MS)) {
+    token = await refreshSession();
+  }
   if (token) {
     config.headers.Authorization = `Bearer ${token}`;
   }
   return config;
 }, (error) => Promise.reject(error));
 
+// A 401 usually means the token expired early or was revoked: refresh once
+// and replay the request
+api.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const config = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+  if (
+    error.response?.status !== 401 ||
+    !config ||
+    config._retried ||
+    AUTH_PATHS.includes(config.url || '') ||
+    !tokenStorage.getToken()
+  ) {
+    return Promise.reject(error);
+  }
+
+  config._retried = true;
+  try {
+    await refreshSession();
+  } catch {
+    return Promise.reject(error);
+  }
+  return api(config);
+});
+
 // ------------------------------
 // Request Logger
 // ------------------------------
@@ -63,6 +126,34 @@ api.interceptors.response.use((response) => {
   return Promise.reject(error);
 });
 
+// ------------------------------
+// Media URLs
+// ------------------------------
+export const getMediaUrl = (path: string) => new URL(path, API_BASE_URL).toString();
+
+// ------------------------------
+// Error Helper
+// ------------------------------
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error || fallback;
+  }
+  return fallback;
+};
+
+// Network failures, timeouts and server errors are worth retrying;
+// other 4xx responses mean the request itself was rejected.
+export const isRetryableError = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return !status || status >= 500 || status === 408 || status === 429;
+};
+
+// The request was fine but the session was not; worth repeating once the
+// user has signed in again
+export const isAuthError = (error: unknown): boolean =>
+  axios.isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 403);
+
 // ------------------------------
 // Types
 // ------------------------------
@@ -77,11 +168,36 @@ export interface LoginData {
   password: string;
 }
 
+export interface AuthTokens {
+  token: string;
+  refresh_token?: string;
+}
+
 export interface Location {
   lat: number;
   lon: number;
+  // Only set for device positions from the geolocation API
+  accuracy?: number; // meters
+  heading?: number | null; // degrees clockwise from north
+  speed?: number | null; // meters per second
+  timestamp?: number; // epoch ms
 }
 
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface HazardQuery {
+  bbox?: BoundingBox;
+  since?: string; // ISO timestamp, only hazards created or updated after it
+}
+
+// 'pending' reports are waiting for a moderator and only visible to them
+export type HazardStatus = 'pending' | 'active' | 'verified' | 'resolved' | 'expired';
+
 export interface Hazard {
   _id: string;
   user_id: string;
@@ -90,25 +206,219 @@ export interface Hazard {
   confidence: number;
   location: Location;
   timestamp: string;
+  status?: HazardStatus; // older records have no status and are treated as 'active'
+  resolved_at?: string;
+  resolved_by?: string;
+  confirmations?: number;
+  disputes?: number;
+  user_vote?: HazardVote | null;
+  severity?: HazardSeverity;
+  reporter_name?: string;
+  audio_url?: string; // original voice report, relative to the API base URL
+  transcript?: string; // what the speech model heard in the voice report
+  district?: string; // administrative area, when the server could geocode it
+  attachments?: HazardAttachment[];
+}
+
+export type HazardVote = 'confirm' | 'dispute';
+
+export interface HazardAttachment {
+  url: string; // relative to the API base URL
+  thumbnail_url?: string;
+  content_type?: string;
+}
+
+export type HazardSeverity = 'low' | 'medium' | 'high';
+
+export interface HazardReport {
+  hazard_type: string;
+  description?: string;
+  severity: HazardSeverity;
+  location: Location;
+}
+
+// What the server made of an uploaded voice report
+export interface VoiceReportResult {
+  description: string;
+  classified_as: string;
+  confidence: number;
+}
+
+// Errors refer to reports by their position in the submitted batch
+export interface BulkCreateResult {
+  created: Hazard[];
+  errors: { index: number; error: string }[];
+}
+
+export type HazardHistoryAction =
+  | 'reported'
+  | 'confirmed'
+  | 'disputed'
+  | 'verified'
+  | 'resolved'
+  | 'reopened'
+  | 'expired'
+  | ModerationAction;
+
+export interface HazardHistoryEntry {
+  action: HazardHistoryAction;
+  changed_by: string;
+  timestamp: string;
+  note?: string;
+}
+
+export type ModerationAction = 'approved' | 'reclassified' | 'rejected' | 'merged';
+
+export interface ModerationAuditEntry {
+  _id: string;
+  hazard_id: string;
+  action: ModerationAction;
+  moderator_id: string;
+  timestamp: string;
+  hazard_type?: string; // the new type, for 'reclassified'
+  duplicate_of?: string; // the surviving hazard, for 'merged'
+  note?: string;
+}
+
+export interface StatsQuery {
+  from?: string; // ISO timestamps
+  to?: string;
+}
+
+export interface DistrictStats {
+  district: string;
+  total: number;
+  active: number;
+  resolved: number;
+  mean_resolution_hours: number | null;
+}
+
+export interface HazardStats {
+  per_day: { date: string; count: number }[]; // date is YYYY-MM-DD
+  by_type: { hazard_type: string; count: number }[];
+  confidence: { bucket: string; count: number }[]; // e.g. '80-89'
+  top_reporters: { user_id: string; name?: string; count: number }[];
+  mean_resolution_hours: number | null; // null when nothing was resolved
+  districts: DistrictStats[];
+}
+
+export interface QuietHours {
+  start: string; // HH:mm, local time
+  end: string; // HH:mm, may be earlier than start to wrap past midnight
+}
+
+export interface AlertPreferences {
+  alert_radius_km: number;
+  hazard_types: string[]; // empty means every type
+  min_confidence: number;
+  quiet_hours: QuietHours | null;
+}
+
+// Places the user wants alerts for regardless of where they are
+export type WatchZoneShape =
+  | { type: 'polygon'; points: Location[] }
+  | { type: 'circle'; center: Location; radius_km: number };
+
+export interface WatchZone {
+  _id: string;
+  name: string;
+  shape: WatchZoneShape;
+  created_at: string;
+}
+
+export interface WatchZoneInput {
+  name: string;
+  shape: WatchZoneShape;
+}
+
+// A hazard alert the user received. The id is the alert's socket event id,
+// so alerts kept locally and on the server line up.
+export interface InboxAlert {
+  id: string;
+  hazard_id?: string;
+  type: string;
+  description: string;
+  location: Location;
+  confidence: number;
+  timestamp: string; // when the hazard was reported
+  received_at: string;
+  read_at: string | null;
+  zones?: string[]; // watch zones the hazard is in
 }
 
 // ------------------------------
 // API Methods
 // ------------------------------
 export const authAPI = {
-  signup: (data: SignupData) => api.post('/signup', data),
-  login: (data: LoginData) => api.post('/login', data),
+  signup: (data: SignupData) => api.post<AuthTokens>('/signup', data),
+  login: (data: LoginData) => api.post<AuthTokens>('/login', data),
+  refresh: (refreshToken: string) =>
+    api.post<AuthTokens>('/refresh', { refresh_token: refreshToken }),
+};
+
+export const userAPI = {
+  getPreferences: () => api.get<AlertPreferences>('/preferences'),
+  updatePreferences: (preferences: AlertPreferences) =>
+    api.put<AlertPreferences>('/preferences', preferences),
 };
 
 export const hazardAPI = {
-  getHazards: () => api.get<Hazard[]>('/get_hazards'),
+  getHazards: ({ bbox, since }: HazardQuery = {}) =>
+    api.get<Hazard[]>('/get_hazards', {
+      params: {
+        bbox: bbox ? [bbox.west, bbox.south, bbox.east, bbox.north].join(',') : undefined,
+        since,
+      },
+    }),
+  getHazard: (id: string) => api.get<Hazard>(`/hazards/${id}`),
   updateLocation: (location: Location) => api.post('/update_location', { location }),
+  resolveHazard: (id: string, note?: string) =>
+    api.post<Hazard>(`/hazards/${id}/resolve`, { note }),
+  reopenHazard: (id: string, note?: string) =>
+    api.post<Hazard>(`/hazards/${id}/reopen`, { note }),
+  confirmHazard: (id: string) => api.post<Hazard>(`/hazards/${id}/confirm`),
+  disputeHazard: (id: string) => api.post<Hazard>(`/hazards/${id}/dispute`),
+  getHazardHistory: (id: string) =>
+    api.get<HazardHistoryEntry[]>(`/hazards/${id}/history`),
+  reportHazard: (report: HazardReport) => api.post<Hazard>('/report_hazard', report),
+  bulkCreate: (reports: HazardReport[]) =>
+    api.post<BulkCreateResult>('/hazards/bulk', { hazards: reports }),
   reportVoice: (formData: FormData) => {
-    return api.post('/report_hazard_voice', formData, {
+    return api.post<VoiceReportResult>('/report_hazard_voice', formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
       timeout: 120000, // 2 minutes for audio uploads
     });
   },
 };
 
+export const moderationAPI = {
+  getQueue: () => api.get<Hazard[]>('/moderation/queue'),
+  getAuditLog: (hazardId?: string) =>
+    api.get<ModerationAuditEntry[]>('/moderation/audit', { params: { hazard_id: hazardId } }),
+  approve: (id: string, note?: string) =>
+    api.post<Hazard>(`/moderation/${id}/approve`, { note }),
+  reclassify: (id: string, hazardType: string, note?: string) =>
+    api.post<Hazard>(`/moderation/${id}/reclassify`, { hazard_type: hazardType, note }),
+  reject: (id: string, note?: string) => api.post(`/moderation/${id}/reject`, { note }),
+  merge: (id: string, duplicateOf: string, note?: string) =>
+    api.post<Hazard>(`/moderation/${id}/merge`, { duplicate_of: duplicateOf, note }),
+};
+
+export const statsAPI = {
+  getStats: (query: StatsQuery = {}) => api.get<HazardStats>('/stats', { params: query }),
+};
+
+export const zonesAPI = {
+  getZones: () => api.get<WatchZone[]>('/zones'),
+  createZone: (zone: WatchZoneInput) => api.post<WatchZone>('/zones', zone),
+  updateZone: (id: string, changes: Partial<WatchZoneInput>) =>
+    api.patch<WatchZone>(`/zones/${id}`, changes),
+  deleteZone: (id: string) => api.delete(`/zones/${id}`),
+};
+
+export const notificationsAPI = {
+  getNotifications: () => api.get<InboxAlert[]>('/notifications'),
+  markRead: (ids: string[]) => api.post('/notifications/read', { ids }),
+};
+
 export default api;
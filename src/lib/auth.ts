@@ -0,0 +1,91 @@
+// ------------------------------
+// Token storage
+// ------------------------------
+const TOKEN_KEY = 'token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+export const tokenStorage = {
+  getToken: () => localStorage.getItem(TOKEN_KEY),
+  getRefreshToken: () => localStorage.getItem(REFRESH_TOKEN_KEY),
+  // Servers that do not rotate refresh tokens only send a new access token
+  set: (token: string, refreshToken?: string) => {
+    localStorage.setItem(TOKEN_KEY, token);
+    if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  },
+  clear: () => {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  },
+};
+
+// ------------------------------
+// JWT decoding
+// ------------------------------
+// Only reads the payload; the signature is the server's business
+export interface TokenClaims {
+  exp?: number; // seconds since epoch
+  [claim: string]: unknown;
+}
+
+export const decodeToken = (token: string): TokenClaims | null => {
+  try {
+    const payload = token.split('.')[1];
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64.padEnd(Math.ceil(base64.length / 4) * 4, '=');
+    const json = decodeURIComponent(
+      Array.from(atob(padded), (char) => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+// Epoch ms, or null for tokens that never expire (or cannot be read)
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeToken(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+// `marginMs` treats tokens about to expire as expired already
+export const isTokenExpired = (token: string, marginMs = 0) => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - marginMs <= Date.now();
+};
+
+// ------------------------------
+// Roles
+// ------------------------------
+// Ordered by privilege: each role can do everything the previous one can
+export const USER_ROLES = ['user', 'moderator', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Tokens without a (known) `role` claim belong to regular users
+export const getTokenRole = (token: string): UserRole => {
+  const role = decodeToken(token)?.role;
+  return USER_ROLES.includes(role as UserRole) ? (role as UserRole) : 'user';
+};
+
+export const hasRole = (role: UserRole, required: UserRole) =>
+  USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+
+// ------------------------------
+// Session events
+// ------------------------------
+// Lets the API layer tell AuthContext about refreshes and expiry without
+// importing React code
+export type SessionEvent = { type: 'refreshed'; token: string } | { type: 'expired' };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const listeners = new Set<SessionListener>();
+
+export const sessionEvents = {
+  subscribe: (listener: SessionListener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+  emit: (event: SessionEvent) => listeners.forEach((listener) => listener(event)),
+};
@@ -0,0 +1,57 @@
+import { Hazard, Location } from './api';
+
+export interface HazardCluster {
+  id: string;
+  center: Location;
+  hazards: Hazard[];
+  counts: Record<string, number>; // hazard_type -> number of hazards
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// ------------------------------
+// Grid clustering
+// ------------------------------
+// Hazards are bucketed into square cells of `cellSize` pixels in projected
+// map space, so the grouping follows the zoom level: zooming in splits
+// clusters apart, zooming out merges them.
+export const clusterHazards = (
+  hazards: Hazard[],
+  project: (location: Location) => Point,
+  cellSize = 60
+): HazardCluster[] => {
+  const cells = new Map<string, Hazard[]>();
+
+  hazards.forEach((hazard) => {
+    const { x, y } = project(hazard.location);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(hazard);
+    } else {
+      cells.set(key, [hazard]);
+    }
+  });
+
+  return Array.from(cells.entries()).map(([key, members]) => {
+    const counts: Record<string, number> = {};
+    let lat = 0;
+    let lon = 0;
+    members.forEach((hazard) => {
+      const type = hazard.hazard_type.toLowerCase();
+      counts[type] = (counts[type] || 0) + 1;
+      lat += hazard.location.lat;
+      lon += hazard.location.lon;
+    });
+
+    return {
+      id: key,
+      center: { lat: lat / members.length, lon: lon / members.length },
+      hazards: members,
+      counts,
+    };
+  });
+};
@@ -0,0 +1,61 @@
+// ------------------------------
+// IndexedDB
+// ------------------------------
+// Thin promise wrapper around the browser's IndexedDB. Each store is keyed
+// by its records' `id` field. Bump DB_VERSION when adding a store.
+const DB_NAME = 'road-hazard-monitor';
+const DB_VERSION = 2;
+
+export const STORES = {
+  pendingReports: 'pending_reports',
+  alertInbox: 'alert_inbox',
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach((store) => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const db = {
+  getAll: <T>(store: StoreName) => run<T[]>(store, 'readonly', (s) => s.getAll()),
+  get: <T>(store: StoreName, id: string) =>
+    run<T | undefined>(store, 'readonly', (s) => s.get(id)),
+  put: <T>(store: StoreName, value: T) => run(store, 'readwrite', (s) => s.put(value)),
+  delete: (store: StoreName, id: string) => run(store, 'readwrite', (s) => s.delete(id)),
+  count: (store: StoreName) => run<number>(store, 'readonly', (s) => s.count()),
+  clear: (store: StoreName) => run(store, 'readwrite', (s) => s.clear()),
+};
@@ -0,0 +1,122 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { Hazard } from './api';
+import { CSV_COLUMNS, toCSV, toGeoJSON, toGPX, toKML } from './export';
+import { parseCSV } from './import';
+
+const hazards: Hazard[] = [
+  {
+    _id: 'h1',
+    user_id: 'driver-1',
+    hazard_type: 'pothole',
+    description: 'Deep hole, "watch out"\nleft lane',
+    confidence: 87,
+    location: { lat: 40.7128, lon: -74.006 },
+    timestamp: '2024-05-01T08:30:00.000Z',
+    status: 'verified',
+    severity: 'high',
+    confirmations: 3,
+    disputes: 1,
+  },
+  {
+    _id: 'h2',
+    user_id: 'driver-2',
+    hazard_type: 'traffic jam',
+    description: '=HYPERLINK("http://evil.example","click") & <b>',
+    confidence: 55,
+    location: { lat: -33.8688, lon: 151.2093 },
+    timestamp: '2024-05-02T17:00:00.000Z',
+    resolved_at: '2024-05-02T19:00:00.000Z',
+    status: 'resolved',
+  },
+];
+
+const parseXml = (text: string) => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  expect(document.getElementsByTagName('parsererror')).toHaveLength(0);
+  return document;
+};
+
+describe('toGeoJSON', () => {
+  it('round-trips every hazard as a point feature', () => {
+    const collection = JSON.parse(toGeoJSON(hazards));
+    expect(collection.type).toBe('FeatureCollection');
+    expect(collection.features).toHaveLength(2);
+
+    const [first, second] = collection.features;
+    expect(first.id).toBe('h1');
+    expect(first.geometry).toEqual({ type: 'Point', coordinates: [-74.006, 40.7128] });
+    expect(first.properties).toMatchObject({
+      hazard_type: 'pothole',
+      description: hazards[0].description,
+      status: 'verified',
+      severity: 'high',
+      confidence: 87,
+      reporter: 'driver-1',
+      confirmations: 3,
+      disputes: 1,
+    });
+    expect(second.properties).toMatchObject({ status: 'resolved', resolved_at: '2024-05-02T19:00:00.000Z' });
+  });
+});
+
+describe('toCSV', () => {
+  it('round-trips through an RFC 4180 parser', () => {
+    const [header, ...rows] = parseCSV(toCSV(hazards));
+    expect(header).toEqual([...CSV_COLUMNS]);
+    expect(rows).toHaveLength(2);
+
+    const first = Object.fromEntries(header.map((column, index) => [column, rows[0][index]]));
+    expect(first).toMatchObject({
+      id: 'h1',
+      hazard_type: 'pothole',
+      description: hazards[0].description,
+      status: 'verified',
+      latitude: '40.7128',
+      longitude: '-74.006',
+      confirmations: '3',
+    });
+  });
+
+  it('neutralises cells that would run as spreadsheet formulas', () => {
+    const [header, , second] = parseCSV(toCSV(hazards));
+    expect(second[header.indexOf('description')]).toBe(`'${hazards[1].description}`);
+    // Negative coordinates are numbers, not formulas
+    expect(second[header.indexOf('latitude')]).toBe('-33.8688');
+
+    for (const prefix of ['+', '-', '@']) {
+      const [, row] = parseCSV(toCSV([{ ...hazards[0], description: `${prefix}1+1` }]));
+      expect(row[header.indexOf('description')]).toBe(`'${prefix}1+1`);
+    }
+  });
+});
+
+describe('toKML', () => {
+  it('round-trips placemarks through an XML parser', () => {
+    const document = parseXml(toKML(hazards));
+    const placemarks = Array.from(document.getElementsByTagName('Placemark'));
+    expect(placemarks).toHaveLength(2);
+
+    const second = placemarks[1];
+    expect(second.getAttribute('id')).toBe('h2');
+    expect(second.getElementsByTagName('name')[0].textContent).toBe('traffic jam');
+    expect(second.getElementsByTagName('description')[0].textContent).toBe(hazards[1].description);
+    expect(second.getElementsByTagName('coordinates')[0].textContent).toBe('151.2093,-33.8688');
+    expect(second.getElementsByTagName('styleUrl')[0].textContent).toBe('#hazard-traffic-jam');
+    expect(document.querySelector('Style[id="hazard-traffic-jam"]')).not.toBeNull();
+  });
+});
+
+describe('toGPX', () => {
+  it('round-trips waypoints through an XML parser', () => {
+    const document = parseXml(toGPX(hazards));
+    const waypoints = Array.from(document.getElementsByTagName('wpt'));
+    expect(waypoints).toHaveLength(2);
+
+    expect(waypoints[0].getAttribute('lat')).toBe('40.7128');
+    expect(waypoints[0].getAttribute('lon')).toBe('-74.006');
+    expect(waypoints[0].getElementsByTagName('time')[0].textContent).toBe('2024-05-01T08:30:00.000Z');
+    expect(waypoints[1].getElementsByTagName('desc')[0].textContent).toBe(hazards[1].description);
+    expect(waypoints[1].getElementsByTagName('type')[0].textContent).toBe('traffic jam');
+  });
+});
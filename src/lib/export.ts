@@ -0,0 +1,171 @@
+import { Hazard } from './api';
+import { getHazardColor, getHazardStatus, HAZARD_TYPES } from './hazards';
+import { escapeMarkup } from './utils';
+
+// Serializers for GIS tools and spreadsheets. All of them are pure: they
+// take the hazards and return the file contents.
+
+// ------------------------------
+// GeoJSON
+// ------------------------------
+export const toGeoJSON = (hazards: Hazard[]) =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: hazards.map((hazard) => ({
+        type: 'Feature',
+        id: hazard._id,
+        // GeoJSON positions are [longitude, latitude]
+        geometry: { type: 'Point', coordinates: [hazard.location.lon, hazard.location.lat] },
+        properties: {
+          hazard_type: hazard.hazard_type,
+          description: hazard.description,
+          status: getHazardStatus(hazard),
+          severity: hazard.severity ?? null,
+          confidence: hazard.confidence,
+          reporter: hazard.user_id,
+          timestamp: hazard.timestamp,
+          resolved_at: hazard.resolved_at ?? null,
+          confirmations: hazard.confirmations ?? 0,
+          disputes: hazard.disputes ?? 0,
+        },
+      })),
+    },
+    null,
+    2
+  );
+
+// ------------------------------
+// CSV
+// ------------------------------
+export const CSV_COLUMNS = [
+  'id',
+  'hazard_type',
+  'description',
+  'status',
+  'severity',
+  'confidence',
+  'latitude',
+  'longitude',
+  'reporter',
+  'timestamp',
+  'resolved_at',
+  'confirmations',
+  'disputes',
+] as const;
+
+// Spreadsheets run text cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks.
+// User-supplied text that looks like a formula is prefixed with a quote so
+// it opens as plain text; numbers (e.g. negative coordinates) are left alone.
+const escapeCsv = (value: string | number | null | undefined) => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (hazards: Hazard[]) => {
+  const rows = hazards.map((hazard) =>
+    [
+      hazard._id,
+      hazard.hazard_type,
+      hazard.description,
+      getHazardStatus(hazard),
+      hazard.severity,
+      hazard.confidence,
+      hazard.location.lat,
+      hazard.location.lon,
+      hazard.user_id,
+      hazard.timestamp,
+      hazard.resolved_at,
+      hazard.confirmations ?? 0,
+      hazard.disputes ?? 0,
+    ]
+      .map(escapeCsv)
+      .join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+// ------------------------------
+// XML formats
+// ------------------------------
+const getStyleId = (hazardType: string) => `hazard-${hazardType.toLowerCase().replace(/\s+/g, '-')}`;
+
+// KML colours are aabbggrr rather than #rrggbb
+const toKmlColor = (hex: string) => {
+  const [, r, g, b] = hex.match(/^#(..)(..)(..)$/) || [];
+  return `ff${b}${g}${r}`;
+};
+
+export const toKML = (hazards: Hazard[]) => {
+  const types = Array.from(new Set([...HAZARD_TYPES, ...hazards.map((hazard) => hazard.hazard_type)]));
+  const styles = types.map(
+    (type) => `    <Style id="${escapeMarkup(getStyleId(type))}">
+      <IconStyle>
+        <color>${toKmlColor(getHazardColor(type))}</color>
+        <Icon><href>http://maps.google.com/mapfiles/kml/shapes/caution.png</href></Icon>
+      </IconStyle>
+    </Style>`
+  );
+  const placemarks = hazards.map(
+    (hazard) => `    <Placemark id="${escapeMarkup(hazard._id)}">
+      <name>${escapeMarkup(hazard.hazard_type)}</name>
+      <description>${escapeMarkup(hazard.description || '')}</description>
+      <TimeStamp><when>${escapeMarkup(hazard.timestamp)}</when></TimeStamp>
+      <styleUrl>#${escapeMarkup(getStyleId(hazard.hazard_type))}</styleUrl>
+      <ExtendedData>
+        <Data name="status"><value>${getHazardStatus(hazard)}</value></Data>
+        <Data name="confidence"><value>${hazard.confidence}</value></Data>
+        <Data name="reporter"><value>${escapeMarkup(hazard.user_id)}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${hazard.location.lon},${hazard.location.lat}</coordinates></Point>
+    </Placemark>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Road hazards</name>
+${[...styles, ...placemarks].join('\n')}
+  </Document>
+</kml>
+`;
+};
+
+export const toGPX = (hazards: Hazard[]) => {
+  const waypoints = hazards.map(
+    (hazard) => `  <wpt lat="${hazard.location.lat}" lon="${hazard.location.lon}">
+    <time>${escapeMarkup(hazard.timestamp)}</time>
+    <name>${escapeMarkup(hazard.hazard_type)}</name>
+    <desc>${escapeMarkup(hazard.description || '')}</desc>
+    <type>${escapeMarkup(hazard.hazard_type)}</type>
+  </wpt>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Road Hazard Monitor" xmlns="http://www.topografix.com/GPX/1/1">
+${waypoints.join('\n')}
+</gpx>
+`;
+};
+
+// ------------------------------
+// Formats
+// ------------------------------
+export interface ExportFormat {
+  id: string;
+  label: string;
+  extension: string;
+  mimeType: string;
+  serialize: (hazards: Hazard[]) => string;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { id: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json', serialize: toGeoJSON },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv', serialize: toCSV },
+  { id: 'kml', label: 'KML (Google Earth)', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml', serialize: toKML },
+  { id: 'gpx', label: 'GPX waypoints', extension: 'gpx', mimeType: 'application/gpx+xml', serialize: toGPX },
+];
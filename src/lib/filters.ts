@@ -0,0 +1,106 @@
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { Hazard, Location } from './api';
+import { calculateDistance } from './geo';
+
+export interface HazardFilters {
+  types: string[];
+  minConfidence: number;
+  maxDistanceKm: number | null;
+  reporter: string;
+  from: string | null; // yyyy-MM-dd
+  to: string | null; // yyyy-MM-dd
+  search: string;
+}
+
+export const DEFAULT_FILTERS: HazardFilters = {
+  types: [],
+  minConfidence: 0,
+  maxDistanceKm: null,
+  reporter: '',
+  from: null,
+  to: null,
+  search: '',
+};
+
+export const hasActiveFilters = (filters: HazardFilters) =>
+  filters.types.length > 0 ||
+  filters.minConfidence > 0 ||
+  filters.maxDistanceKm !== null ||
+  filters.reporter !== '' ||
+  filters.from !== null ||
+  filters.to !== null ||
+  filters.search !== '';
+
+export const toDateParam = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// ------------------------------
+// URL query string
+// ------------------------------
+export const parseFilters = (params: URLSearchParams): HazardFilters => {
+  const minConfidence = Number(params.get('minConfidence'));
+  const maxDistance = Number(params.get('maxDistance'));
+  return {
+    types: params.get('types')?.split(',').filter(Boolean) || [],
+    minConfidence: Number.isFinite(minConfidence) ? minConfidence : 0,
+    maxDistanceKm: maxDistance > 0 ? maxDistance : null,
+    reporter: params.get('reporter') || '',
+    from: params.get('from'),
+    to: params.get('to'),
+    search: params.get('q') || '',
+  };
+};
+
+// Writes the filters onto `params`, leaving unrelated query parameters alone
+export const writeFilters = (params: URLSearchParams, filters: HazardFilters) => {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | null) => {
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  };
+  set('types', filters.types.join(','));
+  set('minConfidence', filters.minConfidence > 0 ? String(filters.minConfidence) : null);
+  set('maxDistance', filters.maxDistanceKm !== null ? String(filters.maxDistanceKm) : null);
+  set('reporter', filters.reporter);
+  set('from', filters.from);
+  set('to', filters.to);
+  set('q', filters.search);
+  return next;
+};
+
+// ------------------------------
+// Matching
+// ------------------------------
+
+export const applyFilters = (
+  hazards: Hazard[],
+  filters: HazardFilters,
+  currentLocation: Location | null
+): Hazard[] => {
+  const search = filters.search.trim().toLowerCase();
+  const reporter = filters.reporter.trim().toLowerCase();
+  const from = filters.from ? startOfDay(parseISO(filters.from)).getTime() : null;
+  const to = filters.to ? endOfDay(parseISO(filters.to)).getTime() : null;
+
+  return hazards.filter((hazard) => {
+    if (filters.types.length > 0 && !filters.types.includes(hazard.hazard_type.toLowerCase())) {
+      return false;
+    }
+    if (hazard.confidence < filters.minConfidence) return false;
+    if (reporter && !hazard.user_id.toLowerCase().includes(reporter)) return false;
+    if (search && !hazard.description.toLowerCase().includes(search)) return false;
+
+    const reportedAt = new Date(hazard.timestamp).getTime();
+    if (from !== null && reportedAt < from) return false;
+    if (to !== null && reportedAt > to) return false;
+
+    // Distance only applies once we know where the user is
+    if (filters.maxDistanceKm !== null && currentLocation) {
+      const distance = calculateDistance(currentLocation, hazard.location);
+      if (distance > filters.maxDistanceKm) return false;
+    }
+    return true;
+  });
+};
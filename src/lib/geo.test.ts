@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBearing,
+  calculateDistance,
+  destinationPoint,
+  distanceToPolyline,
+  encodeGeohash,
+  getBoundingBox,
+  isPointInBoundingBox,
+  isPointInPolygon,
+} from './geo';
+
+const LONDON = { lat: 51.5074, lon: -0.1278 };
+const PARIS = { lat: 48.8566, lon: 2.3522 };
+
+describe('calculateDistance', () => {
+  it('returns the great-circle distance in km', () => {
+    expect(calculateDistance(LONDON, PARIS)).toBeCloseTo(343.6, 0);
+  });
+
+  it('is zero for the same point and symmetric', () => {
+    expect(calculateDistance(LONDON, LONDON)).toBe(0);
+    expect(calculateDistance(PARIS, LONDON)).toBeCloseTo(calculateDistance(LONDON, PARIS), 9);
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    expect(calculateDistance({ lat: 0, lon: 0 }, { lat: 1, lon: 0 })).toBeCloseTo(111.19, 2);
+  });
+});
+
+describe('calculateBearing', () => {
+  it('returns compass bearings for the cardinal directions', () => {
+    const origin = { lat: 0, lon: 0 };
+    expect(calculateBearing(origin, { lat: 1, lon: 0 })).toBeCloseTo(0, 6);
+    expect(calculateBearing(origin, { lat: 0, lon: 1 })).toBeCloseTo(90, 6);
+    expect(calculateBearing(origin, { lat: -1, lon: 0 })).toBeCloseTo(180, 6);
+    expect(calculateBearing(origin, { lat: 0, lon: -1 })).toBeCloseTo(270, 6);
+  });
+
+  it('returns the initial bearing between cities', () => {
+    expect(calculateBearing(LONDON, PARIS)).toBeCloseTo(148.1, 1);
+  });
+});
+
+describe('destinationPoint', () => {
+  it('travels one degree due north', () => {
+    const point = destinationPoint({ lat: 0, lon: 0 }, 0, 111.19);
+    expect(point.lat).toBeCloseTo(1, 3);
+    expect(point.lon).toBeCloseTo(0, 9);
+  });
+
+  it('round-trips with calculateBearing and calculateDistance', () => {
+    const point = destinationPoint(LONDON, 148.1, 343.6);
+    expect(calculateDistance(LONDON, point)).toBeCloseTo(343.6, 6);
+    expect(calculateBearing(LONDON, point)).toBeCloseTo(148.1, 6);
+    expect(calculateDistance(point, PARIS)).toBeLessThan(0.5);
+  });
+
+  it('wraps across the antimeridian', () => {
+    const point = destinationPoint({ lat: 0, lon: 179.5 }, 90, 111.19);
+    expect(point.lon).toBeCloseTo(-179.5, 3);
+  });
+});
+
+describe('isPointInPolygon', () => {
+  const square = [
+    { lat: 0, lon: 0 },
+    { lat: 0, lon: 1 },
+    { lat: 1, lon: 1 },
+    { lat: 1, lon: 0 },
+  ];
+  // An L shape, to catch points in the concave corner
+  const lShape = [
+    { lat: 0, lon: 0 },
+    { lat: 0, lon: 2 },
+    { lat: 1, lon: 2 },
+    { lat: 1, lon: 1 },
+    { lat: 2, lon: 1 },
+    { lat: 2, lon: 0 },
+  ];
+
+  it('finds points inside and outside a square', () => {
+    expect(isPointInPolygon({ lat: 0.5, lon: 0.5 }, square)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lon: 0.5 }, square)).toBe(false);
+    expect(isPointInPolygon({ lat: 0.5, lon: -0.5 }, square)).toBe(false);
+  });
+
+  it('accepts closed polygons', () => {
+    expect(isPointInPolygon({ lat: 0.5, lon: 0.5 }, [...square, square[0]])).toBe(true);
+  });
+
+  it('handles concave polygons', () => {
+    expect(isPointInPolygon({ lat: 0.5, lon: 1.5 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lon: 0.5 }, lShape)).toBe(true);
+    expect(isPointInPolygon({ lat: 1.5, lon: 1.5 }, lShape)).toBe(false);
+  });
+});
+
+describe('distanceToPolyline', () => {
+  const line = [
+    { lat: 0, lon: 0 },
+    { lat: 0, lon: 1 },
+  ];
+
+  it('measures the perpendicular distance and the distance along the line', () => {
+    const result = distanceToPolyline({ lat: 0.01, lon: 0.5 }, line);
+    expect(result.distanceKm).toBeCloseTo(1.106, 3);
+    expect(result.alongKm).toBeCloseTo(55.66, 2);
+  });
+
+  it('measures to the nearest end beyond the line', () => {
+    const result = distanceToPolyline({ lat: 0, lon: -0.01 }, line);
+    expect(result.distanceKm).toBeCloseTo(1.113, 3);
+    expect(result.alongKm).toBe(0);
+  });
+
+  it('adds up the length of earlier segments', () => {
+    const bent = [...line, { lat: 1, lon: 1 }];
+    const result = distanceToPolyline({ lat: 0.5, lon: 1 }, bent);
+    expect(result.distanceKm).toBeCloseTo(0, 6);
+    expect(result.alongKm).toBeCloseTo(111.32 + 55.287, 2);
+  });
+
+  it('handles empty and single-point lines', () => {
+    expect(distanceToPolyline(LONDON, []).distanceKm).toBe(Infinity);
+    expect(distanceToPolyline(LONDON, [PARIS]).distanceKm).toBeCloseTo(343.6, 0);
+  });
+});
+
+describe('getBoundingBox', () => {
+  it('wraps the given points', () => {
+    expect(getBoundingBox([LONDON, PARIS])).toEqual({
+      south: PARIS.lat,
+      west: LONDON.lon,
+      north: LONDON.lat,
+      east: PARIS.lon,
+    });
+  });
+
+  it('pads by the given distance', () => {
+    const box = getBoundingBox([{ lat: 0, lon: 0 }], 1);
+    expect(box.north).toBeCloseTo(1 / 110.574, 9);
+    expect(box.south).toBeCloseTo(-1 / 110.574, 9);
+    expect(box.east).toBeCloseTo(1 / 111.32, 9);
+    expect(box.west).toBeCloseTo(-1 / 111.32, 9);
+  });
+
+  it('pads longitude more away from the equator', () => {
+    const box = getBoundingBox([{ lat: 60, lon: 0 }], 1);
+    expect(box.east).toBeCloseTo(2 / 111.32, 6);
+  });
+
+  it('works with isPointInBoundingBox', () => {
+    const box = getBoundingBox([LONDON, PARIS]);
+    expect(isPointInBoundingBox({ lat: 50, lon: 1 }, box)).toBe(true);
+    expect(isPointInBoundingBox({ lat: 52, lon: 1 }, box)).toBe(false);
+  });
+});
+
+describe('encodeGeohash', () => {
+  it('matches known geohashes', () => {
+    expect(encodeGeohash({ lat: 57.64911, lon: 10.40744 }, 11)).toBe('u4pruydqqvj');
+    expect(encodeGeohash({ lat: 42.6, lon: -5.6 }, 5)).toBe('ezs42');
+  });
+
+  it('defaults to seven characters', () => {
+    expect(encodeGeohash(LONDON)).toHaveLength(7);
+    expect(encodeGeohash(LONDON)).toBe(encodeGeohash(LONDON, 11).slice(0, 7));
+  });
+});
@@ -0,0 +1,172 @@
+import { BoundingBox, Location } from './api';
+
+// ------------------------------
+// Geo primitives
+// ------------------------------
+// Spherical-earth helpers shared by the map, alerts, routing and filters.
+// Distances are in km, angles in degrees.
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// Great-circle (haversine) distance
+export const calculateDistance = (from: Location, to: Location) => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+};
+
+// Initial compass bearing from one point to another, 0..360
+export const calculateBearing = (from: Location, to: Location) => {
+  const lat1 = toRadians(from.lat);
+  const lat2 = toRadians(to.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+// Point reached by travelling `distanceKm` from `from` along `bearingDeg`
+export const destinationPoint = (from: Location, bearingDeg: number, distanceKm: number): Location => {
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const theta = toRadians(bearingDeg);
+  const lat1 = toRadians(from.lat);
+  const lon1 = toRadians(from.lon);
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return { lat: toDegrees(lat2), lon: ((toDegrees(lon2) + 540) % 360) - 180 };
+};
+
+// Ray casting; the polygon may be open or closed
+export const isPointInPolygon = (point: Location, polygon: Location[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lon < ((b.lon - a.lon) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lon;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+// ------------------------------
+// Polylines
+// ------------------------------
+const KM_PER_DEG_LAT = 110.574;
+const KM_PER_DEG_LON_AT_EQUATOR = 111.32;
+
+// Projects `point` onto segment a-b using a flat approximation around `a`,
+// which is accurate for the short segments routing engines return
+const projectOntoSegment = (point: Location, a: Location, b: Location) => {
+  const kmPerDegLon = KM_PER_DEG_LON_AT_EQUATOR * Math.cos(toRadians(a.lat));
+  const bx = (b.lon - a.lon) * kmPerDegLon;
+  const by = (b.lat - a.lat) * KM_PER_DEG_LAT;
+  const px = (point.lon - a.lon) * kmPerDegLon;
+  const py = (point.lat - a.lat) * KM_PER_DEG_LAT;
+
+  const lengthSq = bx * bx + by * by;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq));
+  const length = Math.sqrt(lengthSq);
+  return {
+    along: t * length,
+    offset: Math.hypot(px - t * bx, py - t * by),
+    length,
+  };
+};
+
+export interface PolylineDistance {
+  distanceKm: number; // shortest distance from the point to the line
+  alongKm: number; // distance along the line to the closest position on it
+}
+
+export const distanceToPolyline = (point: Location, line: Location[]): PolylineDistance => {
+  if (line.length === 0) return { distanceKm: Infinity, alongKm: 0 };
+  if (line.length === 1) return { distanceKm: calculateDistance(point, line[0]), alongKm: 0 };
+
+  let best: PolylineDistance = { distanceKm: Infinity, alongKm: 0 };
+  let travelled = 0;
+  for (let i = 0; i < line.length - 1; i++) {
+    const projection = projectOntoSegment(point, line[i], line[i + 1]);
+    if (projection.offset < best.distanceKm) {
+      best = { distanceKm: projection.offset, alongKm: travelled + projection.along };
+    }
+    travelled += projection.length;
+  }
+  return best;
+};
+
+// ------------------------------
+// Bounding boxes
+// ------------------------------
+export const getBoundingBox = (points: Location[], paddingKm = 0): BoundingBox => {
+  const lats = points.map((point) => point.lat);
+  const lons = points.map((point) => point.lon);
+  const box = {
+    south: Math.min(...lats),
+    west: Math.min(...lons),
+    north: Math.max(...lats),
+    east: Math.max(...lons),
+  };
+  if (paddingKm === 0) return box;
+
+  const latPadding = paddingKm / KM_PER_DEG_LAT;
+  const midLat = (box.south + box.north) / 2;
+  const lonPadding = paddingKm / (KM_PER_DEG_LON_AT_EQUATOR * Math.cos(toRadians(midLat)));
+  return {
+    south: box.south - latPadding,
+    west: box.west - lonPadding,
+    north: box.north + latPadding,
+    east: box.east + lonPadding,
+  };
+};
+
+export const isPointInBoundingBox = (point: Location, box: BoundingBox) =>
+  point.lat >= box.south && point.lat <= box.north && point.lon >= box.west && point.lon <= box.east;
+
+// ------------------------------
+// Geohash
+// ------------------------------
+const GEOHASH_BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export const encodeGeohash = (point: Location, precision = 7) => {
+  const lat = [-90, 90];
+  const lon = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let value = 0;
+  let evenBit = true; // longitude first
+
+  while (hash.length < precision) {
+    const range = evenBit ? lon : lat;
+    const coordinate = evenBit ? point.lon : point.lat;
+    const mid = (range[0] + range[1]) / 2;
+    if (coordinate >= mid) {
+      value = value * 2 + 1;
+      range[0] = mid;
+    } else {
+      value = value * 2;
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+};
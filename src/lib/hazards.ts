@@ -0,0 +1,72 @@
+import { Hazard, HazardStatus } from './api';
+
+// Hazard types the classifier produces
+export const HAZARD_TYPES = ['accident', 'pothole', 'flood', 'roadblock', 'traffic jam'] as const;
+
+export type HazardType = (typeof HAZARD_TYPES)[number];
+
+// Shared by map markers, charts and exports
+export const HAZARD_COLORS: Record<HazardType, string> = {
+  accident: '#ef4444',
+  pothole: '#f97316',
+  flood: '#3b82f6',
+  roadblock: '#dc2626',
+  'traffic jam': '#eab308',
+};
+
+// Resolved and expired hazards
+export const MUTED_HAZARD_COLOR = '#9ca3af';
+
+export const getHazardColor = (hazardType: string) =>
+  HAZARD_COLORS[hazardType.toLowerCase() as HazardType] || HAZARD_COLORS.pothole;
+
+// ------------------------------
+// Lifecycle helpers
+// ------------------------------
+export const getHazardStatus = (hazard: Hazard): HazardStatus => hazard.status || 'active';
+
+// Resolved and expired hazards are no longer on the road
+export const isHazardClosed = (hazard: Hazard) => {
+  const status = getHazardStatus(hazard);
+  return status === 'resolved' || status === 'expired';
+};
+
+export const getStatusLabel = (status: HazardStatus) => {
+  const labels: Record<HazardStatus, string> = {
+    pending: 'Pending review',
+    active: 'Active',
+    verified: 'Verified',
+    resolved: 'Resolved',
+    expired: 'Expired',
+  };
+  return labels[status];
+};
+
+// Applies an incremental update on top of an existing list, replacing
+// hazards that changed and appending new ones
+export const mergeHazards = (current: Hazard[], updates: Hazard[]): Hazard[] => {
+  const byId = new Map(current.map((hazard) => [hazard._id, hazard]));
+  updates.forEach((hazard) => byId.set(hazard._id, hazard));
+  return Array.from(byId.values());
+};
+
+// ------------------------------
+// Trust score
+// ------------------------------
+// Model confidence counts as this many community votes, so a handful of
+// drivers can outweigh a single classification but one vote cannot.
+const MODEL_VOTE_WEIGHT = 3;
+
+export const getTrustScore = (hazard: Hazard): number => {
+  const confirmations = hazard.confirmations || 0;
+  const disputes = hazard.disputes || 0;
+  const prior = (hazard.confidence / 100) * MODEL_VOTE_WEIGHT;
+  const score = (prior + confirmations) / (MODEL_VOTE_WEIGHT + confirmations + disputes);
+  return Math.round(score * 100);
+};
+
+export const getTrustLevel = (score: number): 'high' | 'medium' | 'low' => {
+  if (score >= 70) return 'high';
+  if (score >= 40) return 'medium';
+  return 'low';
+};
@@ -0,0 +1,90 @@
+import { Hazard } from './api';
+
+export interface HeatPoint {
+  x: number;
+  y: number;
+  weight: number; // 0..1
+}
+
+// ------------------------------
+// Time windows
+// ------------------------------
+export const TIME_WINDOW_PRESETS = [
+  { label: 'Hour', hours: 1 },
+  { label: 'Day', hours: 24 },
+  { label: 'Week', hours: 24 * 7 },
+];
+
+export const DEFAULT_CUSTOM_WINDOW_HOURS = 24 * 3;
+export const MAX_TIME_WINDOW_HOURS = 24 * 30;
+
+export const filterByTimeWindow = (hazards: Hazard[], hours: number, now = Date.now()) => {
+  const cutoff = now - hours * 60 * 60 * 1000;
+  return hazards.filter((hazard) => new Date(hazard.timestamp).getTime() >= cutoff);
+};
+
+export const formatTimeWindow = (hours: number) => {
+  if (hours < 24) return `${hours} hour${hours !== 1 ? 's' : ''}`;
+  const days = Math.round(hours / 24);
+  return `${days} day${days !== 1 ? 's' : ''}`;
+};
+
+// ------------------------------
+// Rendering
+// ------------------------------
+const GRADIENT_STOPS: [number, string][] = [
+  [0.2, '#3b82f6'],
+  [0.4, '#22c55e'],
+  [0.6, '#eab308'],
+  [0.8, '#f97316'],
+  [1.0, '#ef4444'],
+];
+
+let palette: Uint8ClampedArray | null = null;
+
+// 256-entry RGBA lookup from intensity to color, built once
+const getPalette = () => {
+  if (palette) return palette;
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 256;
+  const ctx = canvas.getContext('2d')!;
+  const gradient = ctx.createLinearGradient(0, 0, 0, 256);
+  GRADIENT_STOPS.forEach(([stop, color]) => gradient.addColorStop(stop, color));
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 1, 256);
+  palette = ctx.getImageData(0, 0, 1, 256).data;
+  return palette;
+};
+
+// Points are first drawn as overlapping greyscale blobs so their alpha adds
+// up, then each pixel's accumulated alpha is mapped onto the color palette.
+export const drawHeatmap = (canvas: HTMLCanvasElement, points: HeatPoint[], radius = 25) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (points.length === 0) return;
+
+  points.forEach(({ x, y, weight }) => {
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius);
+    gradient.addColorStop(0, `rgba(0, 0, 0, ${Math.min(Math.max(weight, 0.05), 1)})`);
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x - radius, y - radius, radius * 2, radius * 2);
+  });
+
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels = image.data;
+  const colors = getPalette();
+  for (let i = 0; i < pixels.length; i += 4) {
+    const alpha = pixels[i + 3];
+    if (alpha === 0) continue;
+    const offset = alpha * 4;
+    pixels[i] = colors[offset];
+    pixels[i + 1] = colors[offset + 1];
+    pixels[i + 2] = colors[offset + 2];
+    pixels[i + 3] = Math.min(alpha * 1.5, 220);
+  }
+  ctx.putImageData(image, 0, 0);
+};
@@ -0,0 +1,113 @@
+import { Location } from './api';
+
+// ------------------------------
+// Resizing
+// ------------------------------
+const MAX_DIMENSION = 1600;
+const JPEG_QUALITY = 0.8;
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read image'));
+    };
+    image.src = url;
+  });
+
+// Scales the photo down so its longest side fits MAX_DIMENSION and
+// re-encodes it as JPEG. Small images are only re-encoded.
+export const compressImage = async (file: Blob): Promise<Blob> => {
+  const image = await loadImage(file);
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not compress image'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+};
+
+// ------------------------------
+// EXIF GPS
+// ------------------------------
+// Minimal JPEG EXIF reader: walks the APP1 segment's TIFF structure to the
+// GPS IFD and reads latitude/longitude. Anything unexpected returns null.
+const TAG_GPS_IFD = 0x8825;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LON_REF = 0x0003;
+const TAG_GPS_LON = 0x0004;
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean) => {
+  const entries = new Map<number, number>(); // tag -> absolute offset of the entry
+  const count = view.getUint16(tiffStart + offset, little);
+  for (let i = 0; i < count; i++) {
+    const entry = tiffStart + offset + 2 + i * 12;
+    entries.set(view.getUint16(entry, little), entry);
+  }
+  return entries;
+};
+
+const readCoordinate = (view: DataView, tiffStart: number, entry: number, little: boolean) => {
+  const valueOffset = tiffStart + view.getUint32(entry + 8, little);
+  const rational = (index: number) =>
+    view.getUint32(valueOffset + index * 8, little) / view.getUint32(valueOffset + index * 8 + 4, little);
+  return rational(0) + rational(1) / 60 + rational(2) / 3600;
+};
+
+export const extractGpsLocation = async (file: Blob): Promise<Location | null> => {
+  try {
+    const view = new DataView(await file.arrayBuffer());
+    if (view.getUint16(0) !== 0xffd8) return null; // not a JPEG
+
+    let offset = 2;
+    while (offset + 4 < view.byteLength) {
+      const marker = view.getUint16(offset);
+      const length = view.getUint16(offset + 2);
+      // APP1 starting with "Exif"
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiffStart = offset + 10;
+        const little = view.getUint16(tiffStart) === 0x4949;
+        const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+        const gpsEntry = ifd0.get(TAG_GPS_IFD);
+        if (gpsEntry === undefined) return null;
+
+        const gps = readIfd(view, tiffStart, view.getUint32(gpsEntry + 8, little), little);
+        const latEntry = gps.get(TAG_GPS_LAT);
+        const lonEntry = gps.get(TAG_GPS_LON);
+        if (latEntry === undefined || lonEntry === undefined) return null;
+
+        // Reference letters are short ASCII values stored inline in the entry
+        const readRef = (entry?: number) =>
+          entry === undefined ? '' : String.fromCharCode(view.getUint8(entry + 8));
+        const latRef = readRef(gps.get(TAG_GPS_LAT_REF));
+        const lonRef = readRef(gps.get(TAG_GPS_LON_REF));
+        const lat = readCoordinate(view, tiffStart, latEntry, little);
+        const lon = readCoordinate(view, tiffStart, lonEntry, little);
+        if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+        return {
+          lat: latRef === 'S' ? -lat : lat,
+          lon: lonRef === 'W' ? -lon : lon,
+        };
+      }
+      offset += 2 + length;
+    }
+  } catch (error) {
+    console.error('Error reading EXIF data:', error);
+  }
+  return null;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { guessMapping, parseCSV, parseImportFile, validateRows } from './import';
+
+describe('parseCSV', () => {
+  it('handles quoted separators, quotes and line breaks', () => {
+    expect(parseCSV('a,b\r\n"x, y","say ""hi""\nthere"\r\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('names blank headers and de-duplicates repeated ones', () => {
+    const source = parseImportFile('zones.csv', 'type,lat,,lat,\npothole,1,x,2,y\n');
+    expect(source.columns).toEqual(['type', 'lat', 'Column 3', 'lat (2)', 'Column 5']);
+    expect(source.rows[0].values).toEqual({ type: 'pothole', lat: '1', 'Column 3': 'x', 'lat (2)': '2', 'Column 5': 'y' });
+  });
+
+  it('keeps the original line numbers of CSV records', () => {
+    const text = '\uFEFFtype,lat,lon\n\nflood,1,2\n"pothole","3","multi\nline"\n\nbad,,\n';
+    const source = parseImportFile('hazards.csv', text);
+    expect(source.rows.map((row) => row.line)).toEqual([3, 4, 7]);
+
+    const rows = validateRows(source, guessMapping(source.columns));
+    expect(rows.filter((row) => !row.report).map((row) => row.line)).toEqual([4, 7]);
+  });
+
+  it('numbers GeoJSON rows by feature and averages non-point geometry', () => {
+    const source = parseImportFile(
+      'closures.geojson',
+      JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+          { type: 'Feature', geometry: { type: 'Point', coordinates: [10, 20] }, properties: { type: 'flood' } },
+          {
+            type: 'Feature',
+            geometry: { type: 'LineString', coordinates: [[0, 0], [2, 4]] },
+            properties: { type: 'roadblock', '': 'x' },
+          },
+        ],
+      })
+    );
+    expect(source.columns).toContain('Unnamed property');
+    const rows = validateRows(source, guessMapping(source.columns));
+    expect(rows.map((row) => [row.line, row.report?.location])).toEqual([
+      [1, { lat: 20, lon: 10 }],
+      [2, { lat: 2, lon: 1 }],
+    ]);
+  });
+});
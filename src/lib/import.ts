@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { HazardReport } from './api';
+import { HAZARD_TYPES } from './hazards';
+
+// Bulk import of known hazards (road works, closures) from files handed to
+// us by road authorities. Files are parsed into plain rows, the admin maps
+// columns to hazard fields, and every row is validated before anything is sent.
+
+export type SourceRow = Record<string, string>;
+
+export interface SourceRecord {
+  line: number; // line in the CSV file, or feature number in GeoJSON
+  values: SourceRow;
+}
+
+export interface ImportSource {
+  format: 'csv' | 'geojson';
+  columns: string[];
+  rows: SourceRecord[];
+}
+
+// ------------------------------
+// CSV
+// ------------------------------
+interface CsvRecord {
+  line: number; // 1-based line the record starts on
+  cells: string[];
+}
+
+// RFC 4180, including quoted fields with commas, quotes and line breaks.
+// Line numbers count every physical line, including blank ones and line
+// breaks inside quoted fields, so they match what an editor shows.
+const parseCsvRecords = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      records.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    records.push({ line: rowLine, cells: row });
+  }
+  // Blank lines carry no data
+  return records.filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+};
+
+export const parseCSV = (text: string): string[][] => parseCsvRecords(text).map(({ cells }) => cells);
+
+// Column names become select values and React keys, so they must be
+// non-empty and unique: blank headers (e.g. from a trailing comma) get a
+// placeholder name and repeated ones a counter
+export const getUniqueColumnNames = (names: string[]) => {
+  const seen = new Set<string>();
+  return names.map((name, index) => {
+    const base = name.trim() || `Column ${index + 1}`;
+    let column = base;
+    for (let count = 2; seen.has(column); count++) column = `${base} (${count})`;
+    seen.add(column);
+    return column;
+  });
+};
+
+const parseCsvSource = (text: string): ImportSource => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  const columns = getUniqueColumnNames(header?.cells ?? []);
+  return {
+    format: 'csv',
+    columns,
+    rows: records.map(({ line, cells }) => ({
+      line,
+      values: Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ''])),
+    })),
+  };
+};
+
+// ------------------------------
+// GeoJSON
+// ------------------------------
+// Geometry becomes two extra columns; lines and polygons (closed road
+// segments, work zones) are reduced to the average of their vertices
+export const GEOMETRY_LAT_COLUMN = 'geometry latitude';
+export const GEOMETRY_LON_COLUMN = 'geometry longitude';
+
+type Position = number[];
+
+const collectPositions = (coordinates: unknown): Position[] => {
+  if (!Array.isArray(coordinates)) return [];
+  if (typeof coordinates[0] === 'number') return [coordinates as Position];
+  return coordinates.flatMap(collectPositions);
+};
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown> | null;
+}
+
+const parseGeoJSONSource = (text: string): ImportSource => {
+  const data = JSON.parse(text);
+  const features: GeoJSONFeature[] =
+    data.type === 'FeatureCollection' ? data.features : data.type === 'Feature' ? [data] : [];
+  if (!Array.isArray(features) || features.length === 0) {
+    throw new Error('No GeoJSON features found');
+  }
+
+  const columns = new Set<string>();
+  const rows = features.map((feature, index) => {
+    const row: SourceRow = {};
+    Object.entries(feature.properties || {}).forEach(([key, value]) => {
+      // Same rule as blank CSV headers; keys within a feature are unique already
+      const column = key.trim() || 'Unnamed property';
+      columns.add(column);
+      row[column] = value === null || value === undefined ? '' : String(value);
+    });
+    const positions = collectPositions(feature.geometry?.coordinates);
+    if (positions.length > 0) {
+      row[GEOMETRY_LON_COLUMN] = String(positions.reduce((sum, [lon]) => sum + lon, 0) / positions.length);
+      row[GEOMETRY_LAT_COLUMN] = String(positions.reduce((sum, [, lat]) => sum + lat, 0) / positions.length);
+    }
+    return { line: index + 1, values: row };
+  });
+
+  return { format: 'geojson', columns: [GEOMETRY_LAT_COLUMN, GEOMETRY_LON_COLUMN, ...columns], rows };
+};
+
+export const parseImportFile = (filename: string, text: string): ImportSource => {
+  const isJson = /\.(geo)?json$/i.test(filename) || text.trimStart().startsWith('{');
+  return isJson ? parseGeoJSONSource(text) : parseCsvSource(text);
+};
+
+// ------------------------------
+// Column mapping
+// ------------------------------
+export const IMPORT_FIELDS = [
+  { key: 'hazard_type', label: 'Hazard type', required: true },
+  { key: 'latitude', label: 'Latitude', required: true },
+  { key: 'longitude', label: 'Longitude', required: true },
+  { key: 'description', label: 'Description', required: false },
+  { key: 'severity', label: 'Severity', required: false },
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]['key'];
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  hazard_type: ['hazard_type', 'type', 'hazard', 'category', 'kind'],
+  latitude: [GEOMETRY_LAT_COLUMN, 'latitude', 'lat', 'y'],
+  longitude: [GEOMETRY_LON_COLUMN, 'longitude', 'lon', 'lng', 'long', 'x'],
+  description: ['description', 'desc', 'details', 'notes', 'name'],
+  severity: ['severity', 'priority', 'level'],
+};
+
+// Pre-fills the mapping from common column names
+export const guessMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ key }) => {
+    const match = FIELD_ALIASES[key]
+      .map((alias) => columns.find((column) => column.toLowerCase() === alias))
+      .find(Boolean);
+    if (match) mapping[key] = match;
+  });
+  return mapping;
+};
+
+// ------------------------------
+// Validation
+// ------------------------------
+// Empty cells count as missing rather than as zero
+const blankToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value;
+
+const coordinate = (label: string, limit: number) =>
+  z.preprocess(
+    (value) => {
+      const present = blankToUndefined(value);
+      return present === undefined ? undefined : Number(present);
+    },
+    z
+      .number({ required_error: `${label} is missing`, invalid_type_error: `${label} is not a number` })
+      .min(-limit, `${label} must be between -${limit} and ${limit}`)
+      .max(limit, `${label} must be between -${limit} and ${limit}`)
+  );
+
+const importRowSchema = z.object({
+  hazard_type: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(HAZARD_TYPES, {
+      errorMap: () => ({ message: `Hazard type must be one of: ${HAZARD_TYPES.join(', ')}` }),
+    })
+  ),
+  latitude: coordinate('Latitude', 90),
+  longitude: coordinate('Longitude', 180),
+  description: z.preprocess(blankToUndefined, z.string().trim().optional()),
+  severity: z.preprocess(
+    (value) => (typeof value === 'string' ? blankToUndefined(value.trim().toLowerCase()) : value),
+    z.enum(['low', 'medium', 'high'], {
+      errorMap: () => ({ message: 'Severity must be low, medium or high' }),
+    }).default('medium')
+  ),
+});
+
+export interface ImportRow {
+  line: number; // see SourceRecord
+  report: HazardReport | null; // null when the row is invalid
+  errors: string[];
+}
+
+export const validateRows = (source: ImportSource, mapping: ColumnMapping): ImportRow[] =>
+  source.rows.map(({ line, values: row }) => {
+    const values = Object.fromEntries(
+      IMPORT_FIELDS.map(({ key }) => [key, mapping[key] ? row[mapping[key]!] : undefined])
+    );
+    const result = importRowSchema.safeParse(values);
+    if (!result.success) {
+      return { line, report: null, errors: result.error.issues.map((issue) => issue.message) };
+    }
+    const { hazard_type, latitude, longitude, description, severity } = result.data;
+    return {
+      line,
+      report: { hazard_type, description, severity, location: { lat: latitude, lon: longitude } },
+      errors: [],
+    };
+  });
+
+export const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, (index + 1) * size)
+  );
@@ -0,0 +1,71 @@
+import { InboxAlert } from './api';
+import { db, STORES } from './db';
+import { HazardAlertEvent } from './realtime';
+
+// Older alerts are dropped once the inbox grows past this
+const MAX_INBOX_SIZE = 200;
+
+export interface StoredAlert extends InboxAlert {
+  read_pending?: boolean; // read on this device, not yet sent to the server
+}
+
+export const fromHazardAlert = (alert: HazardAlertEvent, zones?: string[]): InboxAlert => ({
+  id: alert.event_id || alert.hazard_id || `${alert.timestamp}-${alert.type}`,
+  hazard_id: alert.hazard_id,
+  type: alert.type,
+  description: alert.description,
+  location: alert.location,
+  confidence: alert.confidence,
+  timestamp: alert.timestamp,
+  received_at: new Date().toISOString(),
+  read_at: null,
+  zones,
+});
+
+const newestFirst = (a: InboxAlert, b: InboxAlert) => b.received_at.localeCompare(a.received_at);
+
+// ------------------------------
+// Local store
+// ------------------------------
+export const alertInbox = {
+  list: async () => (await db.getAll<StoredAlert>(STORES.alertInbox)).sort(newestFirst),
+  // Alerts arrive both over the socket and from the server's list; a copy
+  // we already have keeps its read state and receive time
+  add: async (alert: InboxAlert) => {
+    const existing = await db.get<StoredAlert>(STORES.alertInbox, alert.id);
+    await db.put<StoredAlert>(
+      STORES.alertInbox,
+      existing
+        ? {
+            ...alert,
+            received_at: existing.received_at,
+            read_at: existing.read_at ?? alert.read_at,
+            read_pending: existing.read_pending,
+            zones: alert.zones ?? existing.zones,
+          }
+        : alert
+    );
+  },
+  markRead: async (ids: string[]) => {
+    const readAt = new Date().toISOString();
+    for (const id of ids) {
+      const alert = await db.get<StoredAlert>(STORES.alertInbox, id);
+      if (alert && !alert.read_at) {
+        await db.put<StoredAlert>(STORES.alertInbox, { ...alert, read_at: readAt, read_pending: true });
+      }
+    }
+  },
+  markSynced: async (ids: string[]) => {
+    for (const id of ids) {
+      const alert = await db.get<StoredAlert>(STORES.alertInbox, id);
+      if (alert?.read_pending) {
+        await db.put<StoredAlert>(STORES.alertInbox, { ...alert, read_pending: false });
+      }
+    }
+  },
+  prune: async () => {
+    const alerts = await alertInbox.list();
+    await Promise.all(alerts.slice(MAX_INBOX_SIZE).map((alert) => db.delete(STORES.alertInbox, alert.id)));
+  },
+  clear: () => db.clear(STORES.alertInbox),
+};
@@ -0,0 +1,53 @@
+import { AlertPreferences, QuietHours } from './api';
+
+export const DEFAULT_PREFERENCES: AlertPreferences = {
+  alert_radius_km: 3,
+  hazard_types: [],
+  min_confidence: 0,
+  quiet_hours: null,
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isQuietTime = (quietHours: QuietHours | null, now = new Date()) => {
+  if (!quietHours) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  // e.g. 22:00-07:00 wraps past midnight
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+interface AlertCandidate {
+  type: string;
+  confidence: number;
+}
+
+// Type, confidence and quiet-hour filters, without the distance check
+export const matchesPreferences = (
+  preferences: AlertPreferences,
+  alert: AlertCandidate,
+  now = new Date()
+) => {
+  if (alert.confidence < preferences.min_confidence) return false;
+  if (
+    preferences.hazard_types.length > 0 &&
+    !preferences.hazard_types.includes(alert.type.toLowerCase())
+  ) {
+    return false;
+  }
+  return !isQuietTime(preferences.quiet_hours, now);
+};
+
+// Whether an incoming hazard alert at `distanceKm` should be shown
+export const shouldAlert = (
+  preferences: AlertPreferences,
+  alert: AlertCandidate,
+  distanceKm: number,
+  now = new Date()
+) => distanceKm <= preferences.alert_radius_km && matchesPreferences(preferences, alert, now);
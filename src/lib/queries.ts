@@ -0,0 +1,49 @@
+import { MutationCache, QueryCache, QueryClient } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import { getErrorMessage, isRetryableError } from './api';
+
+// Optional per-query/mutation hints for the shared error handling below
+interface ErrorMeta extends Record<string, unknown> {
+  errorTitle?: string;
+  errorMessage?: string; // fallback when the server gives no message
+  silent?: boolean; // the caller handles (or ignores) failures itself
+}
+
+declare module '@tanstack/react-query' {
+  interface Register {
+    queryMeta: ErrorMeta;
+    mutationMeta: ErrorMeta;
+  }
+}
+
+const showError = (error: unknown, meta: ErrorMeta | undefined) => {
+  if (meta?.silent) return;
+  toast({
+    title: meta?.errorTitle || "Error",
+    description: getErrorMessage(error, meta?.errorMessage || "Something went wrong"),
+    variant: "destructive",
+  });
+};
+
+export const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => {
+      console.error('Query failed:', query.queryKey, error);
+      // Background refetches keep showing the cached data, so only a
+      // failed first load is worth interrupting the user for
+      if (query.state.data === undefined) showError(error, query.meta);
+    },
+  }),
+  mutationCache: new MutationCache({
+    onError: (error, _variables, _context, mutation) => {
+      console.error('Mutation failed:', error);
+      showError(error, mutation.meta);
+    },
+  }),
+  defaultOptions: {
+    queries: {
+      staleTime: 30000,
+      retry: (failureCount, error) => failureCount < 2 && isRetryableError(error),
+    },
+  },
+});
@@ -0,0 +1,81 @@
+import { Hazard, Location } from './api';
+
+export type ConnectionStatus = 'connected' | 'reconnecting' | 'offline';
+
+// ------------------------------
+// Server events
+// ------------------------------
+// Events the server may replay carry an `event_id`, which is monotonically
+// increasing per server so we can ask for everything after the last one seen.
+export interface HazardAlertEvent {
+  event_id?: string;
+  hazard_id?: string;
+  type: string;
+  description: string;
+  location: Location;
+  confidence: number;
+  timestamp: string;
+}
+
+export interface SystemEvent {
+  event_id?: string;
+  message: string;
+}
+
+// Sent for every hazard, not only nearby ones, to keep the cache current
+export interface HazardChangeEvent {
+  event_id?: string;
+  hazard: Hazard;
+}
+
+export interface HazardResolvedEvent {
+  event_id?: string;
+  hazard_id: string;
+  resolved_at: string;
+  resolved_by?: string;
+}
+
+export interface ServerEvents {
+  hazard_alert: HazardAlertEvent;
+  hazard_created: HazardChangeEvent;
+  hazard_updated: HazardChangeEvent;
+  hazard_resolved: HazardResolvedEvent;
+  system: SystemEvent;
+}
+
+export type ServerEventName = keyof ServerEvents;
+export type ServerEventHandler<E extends ServerEventName> = (data: ServerEvents[E]) => void;
+
+export const SERVER_EVENTS: ServerEventName[] = [
+  'hazard_alert',
+  'hazard_created',
+  'hazard_updated',
+  'hazard_resolved',
+  'system',
+];
+
+// ------------------------------
+// Replay
+// ------------------------------
+// Sent after a reconnect the server could not recover on its own
+export const REPLAY_EVENT = 'replay';
+
+export interface ReplayRequest {
+  since: string;
+}
+
+// Replayed events may overlap with ones we already handled
+const SEEN_EVENT_LIMIT = 200;
+
+export const createEventDeduper = () => {
+  const seen = new Set<string>();
+  return (eventId?: string) => {
+    if (!eventId) return false;
+    if (seen.has(eventId)) return true;
+    seen.add(eventId);
+    if (seen.size > SEEN_EVENT_LIMIT) {
+      seen.delete(seen.values().next().value);
+    }
+    return false;
+  };
+};
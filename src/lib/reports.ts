@@ -0,0 +1,71 @@
+import { db, STORES } from './db';
+
+export interface VoiceReport {
+  audio: Blob;
+  lat: number;
+  lon: number;
+  accuracy?: number; // meters
+  captured_at: string; // when the recording was made, not when it was uploaded
+  photos?: Blob[];
+}
+
+// Queued reports belong to the driver who recorded them and are only
+// uploaded from that driver's session
+export interface PendingReport extends VoiceReport {
+  id: string;
+  user_id: string;
+  attempts: number;
+  next_attempt_at: number; // epoch ms
+  last_error?: string;
+}
+
+export const buildVoiceReportForm = (report: VoiceReport) => {
+  const formData = new FormData();
+  // Determine file extension based on blob type
+  const extension = report.audio.type.includes('wav') ? 'wav' : 'webm';
+  formData.append('file', report.audio, `hazard_report.${extension}`);
+  formData.append('lat', report.lat.toString());
+  formData.append('lon', report.lon.toString());
+  formData.append('captured_at', report.captured_at);
+  if (report.accuracy !== undefined) {
+    formData.append('accuracy', report.accuracy.toString());
+  }
+  report.photos?.forEach((photo, index) => {
+    formData.append('images', photo, `hazard_photo_${index + 1}.jpg`);
+  });
+  return formData;
+};
+
+// ------------------------------
+// Offline queue
+// ------------------------------
+const BASE_RETRY_DELAY = 5000; // 5 seconds
+const MAX_RETRY_DELAY = 10 * 60 * 1000; // 10 minutes
+
+export const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY * 2 ** attempts, MAX_RETRY_DELAY);
+
+export const reportQueue = {
+  list: async (userId: string) =>
+    (await db.getAll<PendingReport>(STORES.pendingReports)).filter((report) => report.user_id === userId),
+  count: async (userId: string) => (await reportQueue.list(userId)).length,
+  enqueue: async (report: VoiceReport, userId: string) => {
+    const pending: PendingReport = {
+      ...report,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      user_id: userId,
+      attempts: 0,
+      next_attempt_at: Date.now(),
+    };
+    await db.put(STORES.pendingReports, pending);
+    return pending;
+  },
+  markFailed: (report: PendingReport, error: string) =>
+    db.put<PendingReport>(STORES.pendingReports, {
+      ...report,
+      attempts: report.attempts + 1,
+      next_attempt_at: Date.now() + getRetryDelay(report.attempts),
+      last_error: error,
+    }),
+  remove: (id: string) => db.delete(STORES.pendingReports, id),
+};
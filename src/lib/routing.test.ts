@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { Hazard, Location } from './api';
+import { calculateDistance } from './geo';
+import { createOsrmProvider, findHazardsAlongRoute, OsrmResponse, OsrmTransport, Route } from './routing';
+
+const ORIGIN = { lat: 0, lon: 0 };
+const DESTINATION = { lat: 0, lon: 1 };
+
+const hazardAt = (id: string, lat: number, lon: number): Hazard => ({
+  _id: id,
+  user_id: 'driver-1',
+  hazard_type: 'pothole',
+  description: '',
+  confidence: 80,
+  location: { lat, lon },
+  timestamp: '2024-05-01T08:30:00.000Z',
+});
+
+// Answers like an OSRM server: a route that bends slightly north halfway,
+// or NoRoute when both points are the same
+const createStandInOsrm = () => {
+  const requests: { url: string; params: Record<string, string> }[] = [];
+  const transport: OsrmTransport = async (url, params) => {
+    requests.push({ url, params });
+    const [from, to]: Location[] = url
+      .slice(url.lastIndexOf('/') + 1)
+      .split(';')
+      .map((point) => {
+        const [lon, lat] = point.split(',').map(Number);
+        return { lat, lon };
+      });
+    if (from.lat === to.lat && from.lon === to.lon) {
+      return { code: 'NoRoute', message: 'Impossible route between points', routes: [] };
+    }
+
+    const bend = { lat: (from.lat + to.lat) / 2 + 0.01, lon: (from.lon + to.lon) / 2 };
+    const response: OsrmResponse = {
+      code: 'Ok',
+      routes: [
+        {
+          distance: (calculateDistance(from, bend) + calculateDistance(bend, to)) * 1000,
+          duration: 3600,
+          geometry: { coordinates: [from, bend, to].map((point) => [point.lon, point.lat]) },
+        },
+      ],
+    };
+    return response;
+  };
+  return { transport, requests };
+};
+
+describe('createOsrmProvider', () => {
+  it('asks the configured server for a route and converts the response', async () => {
+    const osrm = createStandInOsrm();
+    const provider = createOsrmProvider('https://routing.example', 'cycling', osrm.transport);
+
+    const route = await provider.getRoute(ORIGIN, DESTINATION);
+
+    expect(provider.isConfigured).toBe(true);
+    expect(osrm.requests).toEqual([
+      {
+        url: 'https://routing.example/route/v1/cycling/0,0;1,0',
+        params: { overview: 'full', geometries: 'geojson' },
+      },
+    ]);
+    expect(route.coordinates).toEqual([ORIGIN, { lat: 0.01, lon: 0.5 }, DESTINATION]);
+    expect(route.distanceKm).toBeCloseTo(111.2, 1);
+    expect(route.durationSeconds).toBe(3600);
+  });
+
+  it('throws the server message when there is no route', async () => {
+    const provider = createOsrmProvider('https://routing.example', 'driving', createStandInOsrm().transport);
+
+    await expect(provider.getRoute(ORIGIN, ORIGIN)).rejects.toThrow('Impossible route between points');
+  });
+
+  it('plans routes that the corridor search can use', async () => {
+    const provider = createOsrmProvider('https://routing.example', 'driving', createStandInOsrm().transport);
+    const route = await provider.getRoute(ORIGIN, DESTINATION);
+
+    const matches = findHazardsAlongRoute(route, [hazardAt('on-bend', 0.01, 0.5), hazardAt('far-south', -0.05, 0.5)], 0.1);
+
+    expect(matches.map(({ hazard }) => hazard._id)).toEqual(['on-bend']);
+    expect(matches[0].offsetKm).toBeCloseTo(0, 6);
+  });
+});
+
+describe('findHazardsAlongRoute', () => {
+  const route: Route = { coordinates: [ORIGIN, DESTINATION], distanceKm: 111.32, durationSeconds: 3600 };
+
+  it('returns hazards inside the corridor in the order they are met', () => {
+    const matches = findHazardsAlongRoute(
+      route,
+      [hazardAt('far-along', 0, 0.8), hazardAt('off-route', 0.05, 0.5), hazardAt('near-start', 0.0005, 0.1)],
+      0.1
+    );
+
+    expect(matches.map(({ hazard }) => hazard._id)).toEqual(['near-start', 'far-along']);
+    expect(matches[0].distanceAlongKm).toBeCloseTo(11.13, 2);
+    expect(matches[0].offsetKm).toBeCloseTo(0.0553, 4);
+  });
+
+  it('widens with the buffer', () => {
+    expect(findHazardsAlongRoute(route, [hazardAt('off-route', 0.05, 0.5)], 10)).toHaveLength(1);
+  });
+
+  it('needs at least two route points', () => {
+    expect(findHazardsAlongRoute({ ...route, coordinates: [ORIGIN] }, [hazardAt('h', 0, 0)], 1)).toEqual([]);
+  });
+});
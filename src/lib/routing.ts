@@ -0,0 +1,102 @@
+import axios from 'axios';
+import { Hazard, Location } from './api';
+import { distanceToPolyline } from './geo';
+
+export interface Route {
+  coordinates: Location[];
+  distanceKm: number;
+  durationSeconds: number;
+}
+
+// Anything that can turn two points into a drivable polyline. The OSRM
+// provider below is the default; tests or offline setups can pass their own.
+// `isConfigured` is false when there is no server to ask, so the UI can say so.
+export interface RoutingProvider {
+  isConfigured: boolean;
+  getRoute: (origin: Location, destination: Location) => Promise<Route>;
+}
+
+// ------------------------------
+// OSRM provider
+// ------------------------------
+export interface OsrmResponse {
+  code: string;
+  message?: string;
+  routes: {
+    distance: number; // meters
+    duration: number; // seconds
+    geometry: { coordinates: [number, number][] }; // [lon, lat]
+  }[];
+}
+
+// How the provider reaches the OSRM server; tests pass a stand-in server
+export type OsrmTransport = (url: string, params: Record<string, string>) => Promise<OsrmResponse>;
+
+const httpTransport: OsrmTransport = async (url, params) =>
+  (await axios.get<OsrmResponse>(url, { params, timeout: 30000 })).data;
+
+export const createOsrmProvider = (
+  baseUrl: string,
+  profile = 'driving',
+  transport: OsrmTransport = httpTransport
+): RoutingProvider => ({
+  isConfigured: true,
+  getRoute: async (origin, destination) => {
+    const points = `${origin.lon},${origin.lat};${destination.lon},${destination.lat}`;
+    const response = await transport(`${baseUrl}/route/v1/${profile}/${points}`, {
+      overview: 'full',
+      geometries: 'geojson',
+    });
+    const route = response.routes?.[0];
+    if (response.code !== 'Ok' || !route) {
+      throw new Error(response.message || 'No route found');
+    }
+    return {
+      coordinates: route.geometry.coordinates.map(([lon, lat]) => ({ lat, lon })),
+      distanceKm: route.distance / 1000,
+      durationSeconds: route.duration,
+    };
+  },
+});
+
+// Every origin and destination goes to this server, so it has to be one we
+// run (or trust); there is deliberately no public fallback
+const ROUTING_URL: string | undefined = import.meta.env.VITE_ROUTING_URL;
+
+const unconfiguredProvider: RoutingProvider = {
+  isConfigured: false,
+  getRoute: async () => {
+    throw new Error('Route planning is not configured (VITE_ROUTING_URL is not set)');
+  },
+};
+
+export const defaultRoutingProvider = ROUTING_URL ? createOsrmProvider(ROUTING_URL) : unconfiguredProvider;
+
+// ------------------------------
+// Corridor search
+// ------------------------------
+export interface RouteHazard {
+  hazard: Hazard;
+  distanceAlongKm: number; // from the origin, following the route
+  offsetKm: number; // perpendicular distance from the route
+}
+
+// Hazards within `bufferKm` of the route, in the order the driver meets them
+export const findHazardsAlongRoute = (
+  route: Route,
+  hazards: Hazard[],
+  bufferKm: number
+): RouteHazard[] => {
+  const { coordinates } = route;
+  if (coordinates.length < 2) return [];
+
+  const matches: RouteHazard[] = [];
+  hazards.forEach((hazard) => {
+    const { distanceKm, alongKm } = distanceToPolyline(hazard.location, coordinates);
+    if (distanceKm <= bufferKm) {
+      matches.push({ hazard, distanceAlongKm: alongKm, offsetKm: distanceKm });
+    }
+  });
+
+  return matches.sort((a, b) => a.distanceAlongKm - b.distanceAlongKm);
+};
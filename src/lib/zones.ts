@@ -0,0 +1,33 @@
+import { BoundingBox, Location, WatchZone, WatchZoneShape } from './api';
+import { calculateDistance, getBoundingBox, isPointInPolygon } from './geo';
+
+export const MIN_POLYGON_POINTS = 3;
+
+export const isInZone = (point: Location, shape: WatchZoneShape) =>
+  shape.type === 'circle'
+    ? calculateDistance(shape.center, point) <= shape.radius_km
+    : isPointInPolygon(point, shape.points);
+
+export const getZonesContaining = (point: Location, zones: WatchZone[]) =>
+  zones.filter((zone) => isInZone(point, zone.shape));
+
+export const getShapeBounds = (shape: WatchZoneShape): BoundingBox =>
+  shape.type === 'circle' ? getBoundingBox([shape.center], shape.radius_km) : getBoundingBox(shape.points);
+
+// One box around every zone, so a single hazard request covers them all
+export const getZonesBounds = (zones: WatchZone[]): BoundingBox | null => {
+  if (zones.length === 0) return null;
+  const corners = zones.flatMap((zone) => {
+    const box = getShapeBounds(zone.shape);
+    return [
+      { lat: box.south, lon: box.west },
+      { lat: box.north, lon: box.east },
+    ];
+  });
+  return getBoundingBox(corners);
+};
+
+export const describeShape = (shape: WatchZoneShape) =>
+  shape.type === 'circle'
+    ? `Circle, ${shape.radius_km < 1 ? `${Math.round(shape.radius_km * 1000)} m` : `${shape.radius_km.toFixed(1)} km`} radius`
+    : `Area with ${shape.points.length} corners`;
@@ -0,0 +1,236 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { ANALYTICS_RANGES, formatHours, getRangeQuery } from '@/lib/analytics';
+import { getHazardColor } from '@/lib/hazards';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, BarChart3, Loader2 } from 'lucide-react';
+import { useHazardStats } from '@/hooks/use-stats';
+
+const countConfig: ChartConfig = {
+  count: { label: 'Hazards', color: 'hsl(var(--primary))' },
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const Analytics = () => {
+  const [days, setDays] = useState(ANALYTICS_RANGES[1].days);
+  const navigate = useNavigate();
+  // Fixed per selection so the query key does not change every render
+  const query = useMemo(() => getRangeQuery(days), [days]);
+  const { data, isLoading } = useHazardStats(query);
+  const stats = data?.stats;
+
+  const total = stats?.per_day.reduce((sum, day) => sum + day.count, 0) ?? 0;
+  const typeConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        (stats?.by_type ?? []).map(({ hazard_type }) => [
+          hazard_type,
+          { label: hazard_type, color: getHazardColor(hazard_type) },
+        ])
+      ),
+    [stats]
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-warning/5">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" onClick={() => navigate('/dashboard')}>
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Analytics</h1>
+              <p className="text-sm text-muted-foreground">
+                {data?.source === 'client'
+                  ? 'Computed from the hazard list (the server has no statistics endpoint)'
+                  : 'Hazard reporting at a glance'}
+              </p>
+            </div>
+          </div>
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_RANGES.map((range) => (
+                <SelectItem key={range.days} value={String(range.days)}>
+                  {range.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading || !stats ? (
+          <div className="flex justify-center py-24">
+            {isLoading && <Loader2 className="h-8 w-8 animate-spin text-primary" />}
+          </div>
+        ) : (
+          <>
+            {/* Headline numbers */}
+            <div className="grid sm:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardDescription>Hazards reported</CardDescription>
+                  <CardTitle className="text-3xl">{total}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardDescription>Mean time to resolution</CardDescription>
+                  <CardTitle className="text-3xl">{formatHours(stats.mean_resolution_hours)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardDescription>Most reported</CardDescription>
+                  <CardTitle className="text-3xl capitalize">{stats.by_type[0]?.hazard_type ?? '—'}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            {/* Time series */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <BarChart3 className="h-5 w-5 text-primary" />
+                  Hazards per Day
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={countConfig} className="h-[250px] w-full">
+                  <BarChart data={stats.per_day}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid lg:grid-cols-2 gap-6">
+              {/* By type */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">By Type</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={typeConfig} className="h-[250px] w-full">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="hazard_type" hideLabel />} />
+                      <Pie data={stats.by_type} dataKey="count" nameKey="hazard_type" innerRadius={50}>
+                        {stats.by_type.map(({ hazard_type }) => (
+                          <Cell key={hazard_type} fill={getHazardColor(hazard_type)} />
+                        ))}
+                      </Pie>
+                    </PieChart>
+                  </ChartContainer>
+                  <div className="flex flex-wrap justify-center gap-3 text-xs">
+                    {stats.by_type.map(({ hazard_type, count }) => (
+                      <div key={hazard_type} className="flex items-center gap-1 capitalize">
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: getHazardColor(hazard_type) }} />
+                        {hazard_type} ({count})
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Confidence */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Model Confidence</CardTitle>
+                  <CardDescription>How sure the classifier was, in percent</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={countConfig} className="h-[250px] w-full">
+                    <BarChart data={stats.confidence}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="bucket" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid lg:grid-cols-3 gap-6">
+              {/* Top reporters */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Top Reporters</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Reporter</TableHead>
+                        <TableHead className="text-right">Reports</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stats.top_reporters.map((reporter) => (
+                        <TableRow key={reporter.user_id}>
+                          <TableCell>{reporter.name || reporter.user_id}</TableCell>
+                          <TableCell className="text-right">{reporter.count}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+
+              {/* Districts */}
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-base">By District</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>District</TableHead>
+                        <TableHead className="text-right">Total</TableHead>
+                        <TableHead className="text-right">Open</TableHead>
+                        <TableHead className="text-right">Resolved</TableHead>
+                        <TableHead className="text-right">Time to resolve</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stats.districts.map((district) => (
+                        <TableRow key={district.district}>
+                          <TableCell>{district.district}</TableCell>
+                          <TableCell className="text-right">{district.total}</TableCell>
+                          <TableCell className="text-right">{district.active}</TableCell>
+                          <TableCell className="text-right">{district.resolved}</TableCell>
+                          <TableCell className="text-right">{formatHours(district.mean_resolution_hours)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,344 @@
+import { ChangeEvent, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { getErrorMessage, Hazard, hazardAPI } from '@/lib/api';
+import {
+  chunk,
+  ColumnMapping,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRow,
+  ImportSource,
+  parseImportFile,
+  validateRows,
+} from '@/lib/import';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, CheckCircle2, FileUp, Loader2, Upload } from 'lucide-react';
+import HazardMap from '@/components/HazardMap';
+import { hazardKeys } from '@/hooks/use-hazards';
+
+// Rows per request; keeps each request well under the server's body limit
+const BATCH_SIZE = 50;
+const UNMAPPED = '__unmapped__';
+
+type Step = 'upload' | 'map' | 'review' | 'import';
+
+interface RowFailure {
+  line: number;
+  error: string;
+}
+
+interface ImportProgress {
+  done: number;
+  created: number;
+  failures: RowFailure[];
+  finished: boolean;
+}
+
+// Valid rows shown on the map before anything is sent
+const toPreviewHazard = (row: ImportRow, userId: string): Hazard => ({
+  _id: `import-${row.line}`,
+  user_id: userId,
+  hazard_type: row.report!.hazard_type,
+  description: row.report!.description || '',
+  severity: row.report!.severity,
+  confidence: 100,
+  location: row.report!.location,
+  timestamp: new Date().toISOString(),
+  status: 'active',
+});
+
+const BulkImport = () => {
+  const [step, setStep] = useState<Step>('upload');
+  const [filename, setFilename] = useState('');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const rows = useMemo(() => (source ? validateRows(source, mapping) : []), [source, mapping]);
+  const validRows = useMemo(() => rows.filter((row) => row.report), [rows]);
+  const invalidRows = rows.filter((row) => !row.report);
+  const previewHazards = useMemo(
+    () => validRows.map((row) => toPreviewHazard(row, user?.user_id ?? '')),
+    [validRows, user?.user_id]
+  );
+  // Errors point at the line in the CSV file, or the feature's position in GeoJSON
+  const lineLabel = source?.format === 'geojson' ? 'Feature' : 'Line';
+  const missingFields = IMPORT_FIELDS.filter(({ key, required }) => required && !mapping[key]);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFilename(file.name);
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) throw new Error('The file has no rows');
+      setSource(parsed);
+      setMapping(guessMapping(parsed.columns));
+      setParseError(null);
+    } catch (error) {
+      setSource(null);
+      setParseError(error instanceof Error ? error.message : 'Could not read the file');
+    }
+  };
+
+  const setColumn = (field: ImportField, column: string) =>
+    setMapping((current) => ({ ...current, [field]: column === UNMAPPED ? undefined : column }));
+
+  const runImport = async () => {
+    setStep('import');
+    const result: ImportProgress = { done: 0, created: 0, failures: [], finished: false };
+    setProgress(result);
+
+    // One batch at a time, so a failing batch does not take the others down
+    for (const batch of chunk(validRows, BATCH_SIZE)) {
+      try {
+        const response = await hazardAPI.bulkCreate(batch.map((row) => row.report!));
+        result.created += response.data.created.length;
+        response.data.errors.forEach(({ index, error }) =>
+          result.failures.push({ line: batch[index]?.line ?? 0, error })
+        );
+      } catch (error) {
+        const message = getErrorMessage(error, 'Batch was not accepted');
+        batch.forEach((row) => result.failures.push({ line: row.line, error: message }));
+      }
+      result.done += batch.length;
+      setProgress({ ...result, failures: [...result.failures] });
+    }
+
+    setProgress({ ...result, failures: [...result.failures], finished: true });
+    queryClient.invalidateQueries({ queryKey: hazardKeys.all });
+  };
+
+  const reset = () => {
+    setStep('upload');
+    setFilename('');
+    setSource(null);
+    setMapping({});
+    setProgress(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-warning/5">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" size="icon" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Bulk Import</h1>
+            <p className="text-sm text-muted-foreground">
+              Known hazards from road authorities, as GeoJSON or CSV
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {/* 1. Upload */}
+        {step === 'upload' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                <FileUp className="h-5 w-5 text-primary" />
+                Choose a File
+              </CardTitle>
+              <CardDescription>
+                CSV needs a header row. GeoJSON feature properties become columns; lines and polygons
+                are placed at their centre.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Input type="file" accept=".csv,.json,.geojson,text/csv,application/geo+json" onChange={handleFileChange} />
+              {parseError && <p className="text-sm text-destructive">{parseError}</p>}
+              {source && (
+                <p className="text-sm text-muted-foreground">
+                  {filename}: {source.rows.length} rows, {source.columns.length} columns
+                </p>
+              )}
+              <Button disabled={!source} onClick={() => setStep('map')}>
+                Next
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 2. Column mapping */}
+        {step === 'map' && source && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Map Columns</CardTitle>
+              <CardDescription>Pick the column that holds each hazard field</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(({ key, label, required }) => (
+                  <div key={key} className="space-y-2">
+                    <Label>
+                      {label}
+                      {required && ' *'}
+                    </Label>
+                    <Select value={mapping[key] ?? UNMAPPED} onValueChange={(value) => setColumn(key, value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not in this file</SelectItem>
+                        {source.columns.map((column) => (
+                          <SelectItem key={column} value={column}>
+                            {column}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {missingFields.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Required: {missingFields.map(({ label }) => label).join(', ')}
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setStep('upload')}>
+                  Back
+                </Button>
+                <Button disabled={missingFields.length > 0} onClick={() => setStep('review')}>
+                  Next
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 3. Review */}
+        {step === 'review' && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Preview</CardTitle>
+                <CardDescription>
+                  {validRows.length} of {rows.length} rows are ready to import
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="h-[400px] rounded-xl overflow-hidden border">
+                  <HazardMap hazards={previewHazards} fitToHazards readOnly showControls={false} />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setStep('map')}>
+                    Back
+                  </Button>
+                  <Button disabled={validRows.length === 0} onClick={runImport}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import {validRows.length} hazards
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {invalidRows.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Rows With Errors</CardTitle>
+                  <CardDescription>These rows are skipped; fix the file and upload it again to include them</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-20">{lineLabel}</TableHead>
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invalidRows.map((row) => (
+                        <TableRow key={row.line}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell>{row.errors.join('; ')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+
+        {/* 4. Import */}
+        {step === 'import' && progress && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-base">
+                {progress.finished ? (
+                  <CheckCircle2 className="h-5 w-5 text-primary" />
+                ) : (
+                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                )}
+                {progress.finished ? 'Import Finished' : 'Importing…'}
+              </CardTitle>
+              <CardDescription>
+                {progress.done} of {validRows.length} rows sent
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Progress value={(progress.done / validRows.length) * 100} />
+              <div className="flex flex-wrap gap-2">
+                <Badge>{progress.created} created</Badge>
+                {progress.failures.length > 0 && (
+                  <Badge variant="destructive">{progress.failures.length} failed</Badge>
+                )}
+                {invalidRows.length > 0 && <Badge variant="outline">{invalidRows.length} skipped</Badge>}
+              </div>
+
+              {progress.failures.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-20">{lineLabel}</TableHead>
+                      <TableHead>Server error</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {progress.failures.map((failure, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{failure.line || '—'}</TableCell>
+                        <TableCell>{failure.error}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {progress.finished && (
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={reset}>
+                    Import another file
+                  </Button>
+                  <Button onClick={() => navigate('/dashboard')}>Back to map</Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default BulkImport;
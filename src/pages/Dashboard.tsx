@@ -1,121 +1,179 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { hazardAPI, Hazard } from '@/lib/api';
+import { BoundingBox, InboxAlert, Location } from '@/lib/api';
+import { Route } from '@/lib/routing';
+import { matchesPreferences, shouldAlert } from '@/lib/preferences';
+import { classifyAlert } from '@/lib/alerts';
+import { calculateDistance } from '@/lib/geo';
+import { hasRole } from '@/lib/auth';
+import { getHazardStatus, isHazardClosed } from '@/lib/hazards';
+import { getZonesContaining } from '@/lib/zones';
+import { fromHazardAlert } from '@/lib/inbox';
 import { Button } from '@/components/ui/button';
-import { LogOut, RefreshCw } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BarChart3, CloudOff, LocateFixed, LogOut, Mic, RefreshCw, Route as RouteIcon, Shapes, ShieldCheck, Upload, Zap } from 'lucide-react';
 import HazardMap from '@/components/HazardMap';
 import HazardList from '@/components/HazardList';
 import VoiceRecorder from '@/components/VoiceRecorder';
-import AlertNotification from '@/components/AlertNotification';
-import { io, Socket } from 'socket.io-client';
+import ReportHazardForm from '@/components/ReportHazardForm';
+import RoutePlanner, { RouteEndpoint } from '@/components/RoutePlanner';
+import AlertNotification, { Alert } from '@/components/AlertNotification';
+import HazardFilterBar from '@/components/HazardFilterBar';
+import AlertSettingsSheet from '@/components/AlertSettingsSheet';
+import HazardExportMenu from '@/components/HazardExportMenu';
+import ConnectionStatusBadge from '@/components/ConnectionStatusBadge';
+import AlertInbox from '@/components/AlertInbox';
 import { useToast } from '@/hooks/use-toast';
 import { useLocation } from '@/contexts/LocationContext';
+import { useReportQueue } from '@/contexts/ReportQueueContext';
+import { usePreferences } from '@/contexts/PreferencesContext';
+import { useRealtimeEvent } from '@/contexts/RealtimeContext';
+import { useAlertInbox } from '@/contexts/AlertInboxContext';
+import { useHazardFilters } from '@/hooks/use-hazard-filters';
+import { hazardKeys, isPendingHazard, useHazards, useHazardStream } from '@/hooks/use-hazards';
+import { useZones } from '@/hooks/use-zones';
 
 const Dashboard = () => {
-  const [hazards, setHazards] = useState<Hazard[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [alerts, setAlerts] = useState<any[]>([]);
-  const { user, logout, isAuthenticated } = useAuth();
+  const [bounds, setBounds] = useState<BoundingBox | null>(null);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [routeOrigin, setRouteOrigin] = useState<Location | null>(null);
+  const [routeDestination, setRouteDestination] = useState<Location | null>(null);
+  const [route, setRoute] = useState<Route | null>(null);
+  const [pickTarget, setPickTarget] = useState<RouteEndpoint | null>(null);
+  // Set when jumping to an alert; the map stops following the user until cleared
+  const [focusLocation, setFocusLocation] = useState<Location | null>(null);
+  const { user, logout } = useAuth();
   const { currentLocation } = useLocation();
+  const { filters, setFilters } = useHazardFilters();
+  const { pendingCount, lastSyncAt, retryNow } = useReportQueue();
+  const { preferences } = usePreferences();
+  const { addAlert } = useAlertInbox();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const navigate = useNavigate();
+  const zones = useZones().data ?? [];
+  // A hazard can arrive both as a nearby alert and as a new hazard in a
+  // watch zone; it should only pop up once
+  const alertedHazardIds = useRef(new Set<string>());
 
+  // The list and the map always show the same filtered subset
+  const hazardsQuery = useHazards(bounds, filters, currentLocation);
+  const filteredHazards = hazardsQuery.data?.hazards ?? [];
+  // What the map and list show as markers and rows; reports still being
+  // sent have no server id yet and are left out of exports
+  const exportableHazards = filteredHazards.filter(
+    (hazard) => (showResolved || !isHazardClosed(hazard)) && !isPendingHazard(hazard)
+  );
+  useHazardStream();
+
+  const refreshHazards = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: hazardKeys.lists() }),
+    [queryClient]
+  );
+
+  // Pick up reports that were uploaded from the offline queue
   useEffect(() => {
-    if (!isAuthenticated) {
-      navigate('/login');
-    }
-  }, [isAuthenticated, navigate]);
-
-  const fetchHazards = async () => {
-    try {
-      const response = await hazardAPI.getHazards();
-      setHazards(response.data);
-    } catch (error) {
-      console.error('Error fetching hazards:', error);
-      toast({
-        title: "Error",
-        description: "Could not fetch hazards",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+    if (lastSyncAt) refreshHazards();
+  }, [lastSyncAt, refreshHazards]);
+
+  // Real-time alerts; the connection itself lives in RealtimeProvider
+  useRealtimeEvent('system', (data) => {
+    console.log('System message:', data.message);
+  });
+
+  const showAlert = (alert: Alert, hazardId?: string) => {
+    if (hazardId) {
+      if (alertedHazardIds.current.has(hazardId)) return;
+      alertedHazardIds.current.add(hazardId);
     }
+    setAlerts((prev) => [...prev, alert]);
   };
 
-  useEffect(() => {
-    fetchHazards();
-    
-    // Refresh hazards every 30 seconds
-    const intervalId = setInterval(fetchHazards, 30000);
-    
-    return () => clearInterval(intervalId);
-  }, []);
-
-  // SocketIO connection for real-time alerts
-  useEffect(() => {
-    if (!user?.token) return;
+  useRealtimeEvent('hazard_alert', (data) => {
+    console.log('🚨 Hazard alert received:', data);
 
-    const API_BASE_URL = import.meta.env.VITE_BASE_URL || 'http://127.0.0.1:5000';
-    const socket: Socket = io(API_BASE_URL, {
-      auth: {
-        token: user.token,
-      },
-    });
-
-    socket.on('connect', () => {
-      console.log('✅ Connected to SocketIO');
-    });
-
-    socket.on('system', (data) => {
-      console.log('System message:', data.message);
-    });
-
-    socket.on('hazard_alert', (data) => {
-      console.log('🚨 Hazard alert received:', data);
-      
-      // Check if hazard is nearby (within 3km)
-      if (currentLocation) {
-        const distance = calculateDistance(
-          currentLocation.lat,
-          currentLocation.lon,
-          data.location.lat,
-          data.location.lon
-        );
-
-        if (distance <= 3) {
-          // Add alert to notifications
-          const alertWithId = {
-            ...data,
-            id: Date.now().toString(),
-          };
-          setAlerts((prev) => [...prev, alertWithId]);
-          
-          // Refresh hazards list
-          fetchHazards();
-        }
+    // Check if hazard matches the user's alert preferences
+    if (currentLocation) {
+      const distance = calculateDistance(currentLocation, data.location);
+
+      // Hazards we have already driven past, or that are off to the side, are
+      // noise. Without a heading (parked, or a desktop browser) we cannot
+      // tell, so those still alert on distance alone.
+      const routing = classifyAlert(currentLocation, data.location, distance);
+      const offCourse = routing.direction === 'behind' || routing.direction === 'off-route';
+
+      if (!offCourse && shouldAlert(preferences, data, distance)) {
+        const zoneNames = getZonesContaining(data.location, zones).map((zone) => zone.name);
+        // Only alerts that made it past the filters belong in the inbox
+        addAlert(fromHazardAlert(data, zoneNames));
+
+        // Add alert to notifications
+        const alertWithId: Alert = {
+          ...data,
+          id: data.event_id || Date.now().toString(),
+          routing,
+          zones: zoneNames,
+        };
+        showAlert(alertWithId, data.hazard_id);
       }
-    });
-
-    socket.on('disconnect', () => {
-      console.log('❌ Disconnected from SocketIO');
-    });
-
-    return () => {
-      socket.disconnect();
-    };
-  }, [user?.token, currentLocation]);
-
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371; // Radius of Earth in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+    }
+  });
+
+  // Watch zones alert on every new hazard inside them, however far away
+  // the user is; only the type, confidence and quiet-hour settings apply
+  useRealtimeEvent('hazard_created', ({ event_id, hazard }) => {
+    if (hazard.user_id === user?.user_id || getHazardStatus(hazard) === 'pending') return;
+    const matches = getZonesContaining(hazard.location, zones);
+    const candidate = { type: hazard.hazard_type, confidence: hazard.confidence };
+    if (matches.length === 0 || !matchesPreferences(preferences, candidate)) return;
+    if (alertedHazardIds.current.has(hazard._id)) return;
+
+    const zoneAlert = fromHazardAlert(
+      {
+        event_id,
+        hazard_id: hazard._id,
+        type: hazard.hazard_type,
+        description: hazard.description,
+        location: hazard.location,
+        confidence: hazard.confidence,
+        timestamp: hazard.timestamp,
+      },
+      matches.map((zone) => zone.name)
+    );
+    addAlert(zoneAlert);
+    showAlert(
+      {
+        ...zoneAlert,
+        routing: currentLocation
+          ? classifyAlert(currentLocation, hazard.location, calculateDistance(currentLocation, hazard.location))
+          : undefined,
+      },
+      hazard._id
+    );
+  });
+
+  const showAlertOnMap = (alert: InboxAlert) => {
+    setFocusLocation(alert.location);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const setRouteEndpoint = (endpoint: RouteEndpoint, location: Location | null) => {
+    if (endpoint === 'origin') {
+      setRouteOrigin(location);
+    } else {
+      setRouteDestination(location);
+    }
+    // A moved endpoint invalidates the planned route
+    setRoute(null);
+  };
+
+  const handleMapClick = (location: Location) => {
+    if (!pickTarget) return;
+    setRouteEndpoint(pickTarget, location);
+    setPickTarget(null);
   };
 
   const handleLogout = () => {
@@ -137,14 +195,42 @@ const Dashboard = () => {
             <p className="text-sm text-muted-foreground">Welcome, {user?.user_id}</p>
           </div>
           <div className="flex items-center gap-2">
+            <ConnectionStatusBadge />
+            <AlertInbox onShowOnMap={showAlertOnMap} />
+            {pendingCount > 0 && (
+              <Button variant="outline" size="sm" onClick={retryNow} className="text-warning">
+                <CloudOff className="h-4 w-4 mr-2" />
+                {pendingCount} report{pendingCount !== 1 ? 's' : ''} pending
+              </Button>
+            )}
             <Button
               variant="outline"
               size="icon"
-              onClick={fetchHazards}
-              disabled={loading}
+              onClick={refreshHazards}
+              disabled={hazardsQuery.isFetching}
             >
-              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              <RefreshCw className={`h-4 w-4 ${hazardsQuery.isFetching ? 'animate-spin' : ''}`} />
+            </Button>
+            <HazardExportMenu hazards={exportableHazards} />
+            {user && hasRole(user.role, 'moderator') && (
+              <Button variant="outline" size="icon" onClick={() => navigate('/moderation')} title="Review queue">
+                <ShieldCheck className="h-4 w-4" />
+              </Button>
+            )}
+            {user && hasRole(user.role, 'admin') && (
+              <Button variant="outline" size="icon" onClick={() => navigate('/analytics')} title="Analytics">
+                <BarChart3 className="h-4 w-4" />
+              </Button>
+            )}
+            {user && hasRole(user.role, 'admin') && (
+              <Button variant="outline" size="icon" onClick={() => navigate('/admin/import')} title="Bulk import">
+                <Upload className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="outline" size="icon" onClick={() => navigate('/zones')} title="Watch zones">
+              <Shapes className="h-4 w-4" />
             </Button>
+            <AlertSettingsSheet />
             <Button variant="outline" onClick={handleLogout}>
               <LogOut className="h-4 w-4 mr-2" />
               Logout
@@ -154,23 +240,88 @@ const Dashboard = () => {
       </header>
 
       {/* Main Content */}
-      <main className="container mx-auto px-4 py-6">
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <HazardFilterBar
+          filters={filters}
+          onChange={setFilters}
+          matchCount={filteredHazards.length}
+          totalCount={hazardsQuery.data?.total ?? 0}
+        />
+
         <div className="grid lg:grid-cols-3 gap-6">
-          {/* Left Column - Map & Voice Recorder */}
+          {/* Left Column - Map, Reporting & Route Planning */}
           <div className="lg:col-span-2 space-y-6">
             {/* Map */}
-            <div className="h-[500px] rounded-xl overflow-hidden shadow-lg border bg-card">
-              <HazardMap hazards={hazards} />
+            <div className="relative h-[500px] rounded-xl overflow-hidden shadow-lg border bg-card">
+              <HazardMap
+                center={focusLocation ?? undefined}
+                hazards={filteredHazards}
+                showResolved={showResolved}
+                onHazardUpdated={refreshHazards}
+                onBoundsChange={setBounds}
+                route={route?.coordinates}
+                routeEndpoints={[routeOrigin, routeDestination].filter((point): point is Location => point !== null)}
+                onMapClick={pickTarget ? handleMapClick : undefined}
+                zones={zones}
+              />
+              {focusLocation && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] shadow-lg"
+                  onClick={() => setFocusLocation(null)}
+                >
+                  <LocateFixed className="h-4 w-4 mr-2" />
+                  Back to my location
+                </Button>
+              )}
             </div>
 
-            {/* Voice Recorder */}
-            <VoiceRecorder onHazardReported={fetchHazards} />
+            {/* Reporting */}
+            <Tabs defaultValue="voice">
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="voice">
+                  <Mic className="h-4 w-4 mr-2" />
+                  Voice
+                </TabsTrigger>
+                <TabsTrigger value="quick">
+                  <Zap className="h-4 w-4 mr-2" />
+                  Quick report
+                </TabsTrigger>
+                <TabsTrigger value="route">
+                  <RouteIcon className="h-4 w-4 mr-2" />
+                  Route
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="voice">
+                <VoiceRecorder onHazardReported={refreshHazards} />
+              </TabsContent>
+              <TabsContent value="quick">
+                <ReportHazardForm />
+              </TabsContent>
+              <TabsContent value="route">
+                <RoutePlanner
+                  origin={routeOrigin}
+                  destination={routeDestination}
+                  onEndpointChange={setRouteEndpoint}
+                  pickTarget={pickTarget}
+                  onPickTargetChange={setPickTarget}
+                  route={route}
+                  onRouteChange={setRoute}
+                />
+              </TabsContent>
+            </Tabs>
           </div>
 
           {/* Right Column - Hazard List */}
           <div className="lg:col-span-1">
             <div className="h-[calc(100vh-180px)] sticky top-6">
-              <HazardList hazards={hazards} />
+              <HazardList
+                hazards={filteredHazards}
+                showResolved={showResolved}
+                onShowResolvedChange={setShowResolved}
+                onHazardUpdated={refreshHazards}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,221 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams, Link } from 'react-router-dom';
+import { HazardHistoryAction, getMediaUrl } from '@/lib/api';
+import { getBoundingBox } from '@/lib/geo';
+import { getHazardStatus, getStatusLabel, getTrustScore, isHazardClosed } from '@/lib/hazards';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowLeft, Clock, History, Loader2, MapPin, User, Volume2 } from 'lucide-react';
+import HazardMap from '@/components/HazardMap';
+import HazardVoting from '@/components/HazardVoting';
+import HazardPhotos from '@/components/HazardPhotos';
+import { hazardKeys, useHazard, useHazardHistory, useHazards } from '@/hooks/use-hazards';
+
+const NEARBY_RADIUS_KM = 1;
+
+const actionLabels: Record<HazardHistoryAction, string> = {
+  reported: 'Reported',
+  confirmed: 'Confirmed still there',
+  disputed: 'Reported as gone',
+  verified: 'Verified',
+  resolved: 'Resolved',
+  reopened: 'Reopened',
+  expired: 'Expired',
+  approved: 'Approved by a moderator',
+  reclassified: 'Reclassified by a moderator',
+  rejected: 'Rejected by a moderator',
+  merged: 'Merged into another report',
+};
+
+const HazardDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const hazardQuery = useHazard(id);
+  const historyQuery = useHazardHistory(id);
+  const hazard = hazardQuery.data;
+  const history = historyQuery.data ?? [];
+  const nearbyQuery = useHazards(hazard ? getBoundingBox([hazard.location], NEARBY_RADIUS_KM) : null);
+  const nearby = (nearbyQuery.data?.hazards ?? []).filter((other) => other._id !== id);
+
+  const refreshHazard = () => queryClient.invalidateQueries({ queryKey: hazardKeys.detail(id!) });
+
+  if (hazardQuery.isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!hazard) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">This hazard could not be found.</p>
+        <Button variant="outline" onClick={() => navigate('/dashboard')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to dashboard
+        </Button>
+      </div>
+    );
+  }
+
+  const status = getHazardStatus(hazard);
+  const closed = isHazardClosed(hazard);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-warning/5">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" size="icon" onClick={() => navigate(-1)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground capitalize">{hazard.hazard_type}</h1>
+            <p className="text-sm text-muted-foreground">Hazard {hazard._id}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Record */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <Badge className="capitalize">{hazard.hazard_type}</Badge>
+                  <Badge variant="outline">{getStatusLabel(status)}</Badge>
+                </div>
+                <CardDescription className="pt-2 text-base text-foreground">
+                  {hazard.description}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <HazardPhotos attachments={hazard.attachments} />
+                <div className="grid sm:grid-cols-2 gap-3 text-sm text-muted-foreground">
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4" />
+                    <span>{new Date(hazard.timestamp).toLocaleString()}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4" />
+                    <span>
+                      {hazard.location.lat.toFixed(5)}, {hazard.location.lon.toFixed(5)}
+                    </span>
+                  </div>
+                  <p>Model confidence: {hazard.confidence}%</p>
+                  <p>Trust score: {getTrustScore(hazard)}%</p>
+                  {hazard.resolved_at && (
+                    <p>
+                      Resolved {new Date(hazard.resolved_at).toLocaleString()}
+                      {hazard.resolved_by && ` by ${hazard.resolved_by}`}
+                    </p>
+                  )}
+                </div>
+                {!closed && <HazardVoting hazard={hazard} onVoted={refreshHazard} />}
+              </CardContent>
+            </Card>
+
+            {/* Mini map */}
+            <div className="h-[350px] rounded-xl overflow-hidden shadow-lg border bg-card">
+              <HazardMap
+                hazards={[hazard, ...nearby]}
+                center={hazard.location}
+                zoom={16}
+                showResolved
+                showControls={false}
+              />
+            </div>
+
+            {/* Original audio */}
+            {hazard.audio_url && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Volume2 className="h-5 w-5 text-primary" />
+                    Original Voice Report
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <audio controls src={getMediaUrl(hazard.audio_url)} className="w-full" />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="lg:col-span-1 space-y-6">
+            {/* Reporter */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <User className="h-5 w-5 text-primary" />
+                  Reporter
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                {hazard.reporter_name && <p className="font-medium">{hazard.reporter_name}</p>}
+                <p className="text-muted-foreground">{hazard.user_id}</p>
+              </CardContent>
+            </Card>
+
+            {/* History */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <History className="h-5 w-5 text-primary" />
+                  History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No activity yet</p>
+                ) : (
+                  <ol className="space-y-3 border-l pl-4">
+                    {history.map((entry, index) => (
+                      <li key={index} className="text-sm">
+                        <p className="font-medium">{actionLabels[entry.action] || entry.action}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.changed_by} • {new Date(entry.timestamp).toLocaleString()}
+                        </p>
+                        {entry.note && <p className="text-xs mt-1">{entry.note}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Nearby */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Nearby Hazards</CardTitle>
+                <CardDescription>Within about 1 km</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {nearby.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No other hazards nearby</p>
+                ) : (
+                  nearby.map((other) => (
+                    <Link
+                      key={other._id}
+                      to={`/hazards/${other._id}`}
+                      className="block p-3 border rounded-lg hover:border-primary/50 transition-colors"
+                    >
+                      <p className="text-sm font-medium capitalize">{other.hazard_type}</p>
+                      <p className="text-xs text-muted-foreground truncate">{other.description}</p>
+                    </Link>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default HazardDetail;
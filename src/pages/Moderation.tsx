@@ -0,0 +1,367 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { getMediaUrl, Hazard, ModerationAction } from '@/lib/api';
+import { HAZARD_TYPES, isHazardClosed } from '@/lib/hazards';
+import { calculateDistance, getBoundingBox } from '@/lib/geo';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, Check, ClipboardList, GitMerge, Keyboard, Loader2, MapPin, ShieldCheck, X } from 'lucide-react';
+import HazardMap from '@/components/HazardMap';
+import { useHazards } from '@/hooks/use-hazards';
+import { ModerationDecision, useModerate, useModerationAudit, useModerationQueue } from '@/hooks/use-moderation';
+
+// Other reports this close are offered as merge targets
+const DUPLICATE_RADIUS_KM = 0.2;
+const AUDIT_ENTRIES_SHOWN = 20;
+
+const auditLabels: Record<ModerationAction, string> = {
+  approved: 'approved',
+  reclassified: 'reclassified',
+  rejected: 'rejected',
+  merged: 'merged',
+};
+
+const SHORTCUTS = [
+  ['J / K', 'Next / previous report'],
+  ['A', 'Approve'],
+  ['X', 'Reject'],
+  [`1–${HAZARD_TYPES.length}`, 'Reclassify'],
+  ['M', 'Merge into selected duplicate'],
+  ['P', 'Play / pause audio'],
+];
+
+// Typing a note must not trigger shortcuts
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const Moderation = () => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const navigate = useNavigate();
+  const queueQuery = useModerationQueue();
+  const auditQuery = useModerationAudit();
+  const moderate = useModerate();
+
+  const queue = useMemo(() => queueQuery.data ?? [], [queueQuery.data]);
+  const selectedIndex = Math.max(queue.findIndex((hazard) => hazard._id === selectedId), 0);
+  const selected: Hazard | undefined = queue[selectedIndex];
+
+  const nearbyQuery = useHazards(
+    selected ? getBoundingBox([selected.location], DUPLICATE_RADIUS_KM) : null
+  );
+  const candidates = useMemo(() => {
+    if (!selected) return [];
+    return (nearbyQuery.data?.hazards ?? [])
+      .filter((hazard) => hazard._id !== selected._id && !isHazardClosed(hazard))
+      .map((hazard) => ({ hazard, distanceKm: calculateDistance(selected.location, hazard.location) }))
+      .filter(({ distanceKm }) => distanceKm <= DUPLICATE_RADIUS_KM)
+      .sort((a, b) => a.distanceKm - b.distanceKm);
+  }, [selected, nearbyQuery.data]);
+
+  // A new report starts with a clean slate
+  useEffect(() => {
+    setMergeTargetId(null);
+    setNote('');
+  }, [selected?._id]);
+
+  const select = (index: number) => {
+    const hazard = queue[Math.min(Math.max(index, 0), queue.length - 1)];
+    if (hazard) setSelectedId(hazard._id);
+  };
+
+  const decide = (decision: ModerationDecision) => {
+    // Move on to the next report; the current one leaves the queue
+    const next = queue[selectedIndex + 1] || queue[selectedIndex - 1];
+    setSelectedId(next?._id ?? null);
+    moderate.mutate({ ...decision, note: note.trim() || undefined });
+  };
+
+  const approve = () => selected && decide({ type: 'approve', id: selected._id });
+  const reject = () => selected && decide({ type: 'reject', id: selected._id });
+  const reclassify = (hazardType: string) =>
+    selected &&
+    hazardType !== selected.hazard_type &&
+    decide({ type: 'reclassify', id: selected._id, hazardType });
+  const merge = () =>
+    selected && mergeTargetId && decide({ type: 'merge', id: selected._id, duplicateOf: mergeTargetId });
+
+  const toggleAudio = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(() => {
+        // Ignore if the browser blocks playback
+      });
+    } else {
+      audio.pause();
+    }
+  };
+
+  // Re-registered every render so the handler sees the current selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTyping(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+      // A held-down key must not approve or reject report after report
+      if (e.repeat) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'j' || key === 'arrowdown') select(selectedIndex + 1);
+      else if (key === 'k' || key === 'arrowup') select(selectedIndex - 1);
+      else if (key === 'a') approve();
+      else if (key === 'x') reject();
+      else if (key === 'm') merge();
+      else if (key === 'p') toggleAudio();
+      else if (/^[1-9]$/.test(key) && HAZARD_TYPES[Number(key) - 1]) reclassify(HAZARD_TYPES[Number(key) - 1]);
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-warning/5">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" size="icon" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Review Queue</h1>
+            <p className="text-sm text-muted-foreground">
+              {queue.length} report{queue.length !== 1 ? 's' : ''} waiting for review
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Queue */}
+          <div className="lg:col-span-1 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <ClipboardList className="h-5 w-5 text-primary" />
+                  Pending Reports
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 max-h-[60vh] overflow-auto">
+                {queueQuery.isLoading ? (
+                  <Loader2 className="h-6 w-6 animate-spin text-primary mx-auto" />
+                ) : queue.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">Nothing to review</p>
+                ) : (
+                  queue.map((hazard, index) => (
+                    <button
+                      key={hazard._id}
+                      type="button"
+                      onClick={() => select(index)}
+                      className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                        hazard._id === selected?._id ? 'border-primary bg-primary/5' : 'hover:border-primary/50'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <Badge variant="outline" className="capitalize">{hazard.hazard_type}</Badge>
+                        <span className="text-xs text-muted-foreground">{hazard.confidence}%</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground truncate mt-1">
+                        {hazard.transcript || hazard.description}
+                      </p>
+                    </button>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Keyboard className="h-5 w-5 text-primary" />
+                  Shortcuts
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                {SHORTCUTS.map(([keys, action]) => (
+                  <div key={keys} className="flex justify-between">
+                    <span className="font-mono text-xs text-muted-foreground">{keys}</span>
+                    <span>{action}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {/* Selected report */}
+            {selected ? (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center gap-2">
+                    <Badge className="capitalize">{selected.hazard_type}</Badge>
+                    <Badge variant="outline">{selected.confidence}% model confidence</Badge>
+                  </div>
+                  <CardDescription className="pt-2">
+                    Reported by {selected.reporter_name || selected.user_id} •{' '}
+                    {new Date(selected.timestamp).toLocaleString()}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {selected.audio_url && (
+                    <audio ref={audioRef} controls src={getMediaUrl(selected.audio_url)} className="w-full" />
+                  )}
+                  <div className="space-y-1">
+                    <Label>Transcript</Label>
+                    <p className="text-sm">{selected.transcript || 'No transcript available'}</p>
+                  </div>
+                  {selected.description && selected.description !== selected.transcript && (
+                    <div className="space-y-1">
+                      <Label>Description</Label>
+                      <p className="text-sm">{selected.description}</p>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <MapPin className="h-4 w-4" />
+                    <span>
+                      {selected.location.lat.toFixed(5)}, {selected.location.lon.toFixed(5)}
+                    </span>
+                  </div>
+                  <div className="h-[280px] rounded-xl overflow-hidden border">
+                    <HazardMap
+                      hazards={[selected, ...candidates.map(({ hazard }) => hazard)]}
+                      center={selected.location}
+                      zoom={17}
+                      showResolved
+                      showControls={false}
+                    />
+                  </div>
+
+                  {/* Decision */}
+                  <div className="space-y-2">
+                    <Label htmlFor="moderation-note">Note (optional, saved in the audit trail)</Label>
+                    <Textarea
+                      id="moderation-note"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      rows={2}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button onClick={approve}>
+                      <Check className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                    <Button variant="destructive" onClick={reject}>
+                      <X className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Reclassify as</Label>
+                    <div className="flex flex-wrap gap-2">
+                      {HAZARD_TYPES.map((type, index) => (
+                        <Button
+                          key={type}
+                          variant="outline"
+                          size="sm"
+                          className="capitalize"
+                          disabled={type === selected.hazard_type}
+                          onClick={() => reclassify(type)}
+                        >
+                          <span className="font-mono text-xs text-muted-foreground mr-2">{index + 1}</span>
+                          {type}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Possible duplicates within {DUPLICATE_RADIUS_KM * 1000} m</Label>
+                    {candidates.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No other reports nearby</p>
+                    ) : (
+                      <>
+                        {candidates.map(({ hazard, distanceKm }) => (
+                          <button
+                            key={hazard._id}
+                            type="button"
+                            onClick={() => setMergeTargetId(mergeTargetId === hazard._id ? null : hazard._id)}
+                            className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                              hazard._id === mergeTargetId ? 'border-primary bg-primary/5' : 'hover:border-primary/50'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm font-medium capitalize">{hazard.hazard_type}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {Math.round(distanceKm * 1000)} m away
+                              </span>
+                            </div>
+                            <p className="text-xs text-muted-foreground truncate">{hazard.description}</p>
+                          </button>
+                        ))}
+                        <Button variant="outline" onClick={merge} disabled={!mergeTargetId}>
+                          <GitMerge className="h-4 w-4 mr-2" />
+                          Merge into selected
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              !queueQuery.isLoading && (
+                <Card>
+                  <CardContent className="py-12 text-center text-muted-foreground">
+                    The queue is empty. New low-confidence reports will show up here.
+                  </CardContent>
+                </Card>
+              )
+            )}
+
+            {/* Audit trail */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <ShieldCheck className="h-5 w-5 text-primary" />
+                  Audit Trail
+                </CardTitle>
+                <CardDescription>Recent moderation decisions</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {(auditQuery.data ?? []).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No decisions yet</p>
+                ) : (
+                  <ol className="space-y-3 border-l pl-4">
+                    {auditQuery.data.slice(0, AUDIT_ENTRIES_SHOWN).map((entry) => (
+                      <li key={entry._id} className="text-sm">
+                        <p>
+                          <span className="font-medium">{entry.moderator_id}</span>{' '}
+                          {auditLabels[entry.action] || entry.action} report {entry.hazard_id}
+                          {entry.hazard_type && <> as <span className="capitalize">{entry.hazard_type}</span></>}
+                          {entry.duplicate_of && ` into ${entry.duplicate_of}`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(entry.timestamp).toLocaleString()}
+                        </p>
+                        {entry.note && <p className="text-xs mt-1">{entry.note}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Moderation;
@@ -0,0 +1,285 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Location, WatchZone, WatchZoneShape } from '@/lib/api';
+import { isHazardClosed } from '@/lib/hazards';
+import { describeShape, getShapeBounds, getZonesBounds, isInZone } from '@/lib/zones';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ArrowLeft, Check, Circle, Hexagon, Loader2, Pencil, Plus, Shapes, Trash2, X } from 'lucide-react';
+import HazardMap from '@/components/HazardMap';
+import { ZoneDrawMode } from '@/components/ZoneLayers';
+import { useToast } from '@/hooks/use-toast';
+import { useHazards } from '@/hooks/use-hazards';
+import { useCreateZone, useDeleteZone, useUpdateZone, useZones } from '@/hooks/use-zones';
+
+// What the next shape drawn on the map is for
+type DrawTarget = { type: 'new' } | { type: 'redraw'; zoneId: string };
+
+const getShapeCenter = (shape: WatchZoneShape): Location => {
+  const box = getShapeBounds(shape);
+  return { lat: (box.south + box.north) / 2, lon: (box.west + box.east) / 2 };
+};
+
+const Zones = () => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drawMode, setDrawMode] = useState<ZoneDrawMode | null>(null);
+  const [drawTarget, setDrawTarget] = useState<DrawTarget | null>(null);
+  const [newName, setNewName] = useState('');
+  const [draftShape, setDraftShape] = useState<WatchZoneShape | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const zonesQuery = useZones();
+  const createZone = useCreateZone();
+  const updateZone = useUpdateZone();
+  const deleteZone = useDeleteZone();
+
+  const zones = useMemo(() => zonesQuery.data ?? [], [zonesQuery.data]);
+  // One request covers every zone; counts are worked out per zone below
+  const bounds = useMemo(() => getZonesBounds(zones), [zones]);
+  const hazardsQuery = useHazards(bounds);
+  const activeHazards = useMemo(
+    () => (hazardsQuery.data?.hazards ?? []).filter((hazard) => !isHazardClosed(hazard)),
+    [hazardsQuery.data]
+  );
+  const hazardCounts = useMemo(
+    () =>
+      Object.fromEntries(
+        zones.map((zone) => [
+          zone._id,
+          activeHazards.filter((hazard) => isInZone(hazard.location, zone.shape)).length,
+        ])
+      ),
+    [zones, activeHazards]
+  );
+
+  const selected = zones.find((zone) => zone._id === selectedId);
+  const focus = draftShape || selected?.shape || zones[0]?.shape;
+
+  const startDrawing = (mode: ZoneDrawMode, target: DrawTarget) => {
+    setDrawMode(mode);
+    setDrawTarget(target);
+  };
+
+  const stopDrawing = () => {
+    setDrawMode(null);
+    setDrawTarget(null);
+  };
+
+  const handleZoneDrawn = (shape: WatchZoneShape) => {
+    if (drawTarget?.type === 'redraw') {
+      updateZone.mutate({ id: drawTarget.zoneId, changes: { shape } });
+    } else {
+      setDraftShape(shape);
+    }
+    stopDrawing();
+  };
+
+  const saveNewZone = () => {
+    if (!draftShape || !newName.trim()) return;
+    createZone.mutate(
+      { name: newName.trim(), shape: draftShape },
+      {
+        onSuccess: (zone) => {
+          toast({ title: "Zone Saved", description: `You will be alerted about hazards in ${zone.name}` });
+          setNewName('');
+          setDraftShape(null);
+          setSelectedId(zone._id);
+        },
+      }
+    );
+  };
+
+  const startRename = (zone: WatchZone) => {
+    setRenamingId(zone._id);
+    setRenameValue(zone.name);
+  };
+
+  const saveRename = () => {
+    if (renamingId && renameValue.trim()) {
+      updateZone.mutate({ id: renamingId, changes: { name: renameValue.trim() } });
+    }
+    setRenamingId(null);
+  };
+
+  const removeZone = (zone: WatchZone) => {
+    deleteZone.mutate(zone._id, {
+      onSuccess: () => toast({ title: "Zone Deleted", description: `${zone.name} is no longer watched` }),
+    });
+    if (selectedId === zone._id) setSelectedId(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-primary/5 to-warning/5">
+      {/* Header */}
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Button variant="outline" size="icon" onClick={() => navigate('/dashboard')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Watch Zones</h1>
+            <p className="text-sm text-muted-foreground">
+              Get alerts for new hazards in these places, wherever you are
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Map */}
+          <div className="lg:col-span-2 h-[600px] rounded-xl overflow-hidden shadow-lg border bg-card">
+            <HazardMap
+              hazards={activeHazards}
+              center={focus ? getShapeCenter(focus) : undefined}
+              zones={zones}
+              draftZone={draftShape}
+              drawMode={drawMode}
+              onZoneDrawn={handleZoneDrawn}
+              onDrawCancel={stopDrawing}
+              showControls={false}
+            />
+          </div>
+
+          <div className="space-y-6">
+            {/* New zone */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Plus className="h-5 w-5 text-primary" />
+                  New Zone
+                </CardTitle>
+                <CardDescription>Home, depot, school route…</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="zone-name">Name</Label>
+                  <Input id="zone-name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant={drawMode === 'polygon' && drawTarget?.type === 'new' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => startDrawing('polygon', { type: 'new' })}
+                  >
+                    <Hexagon className="h-4 w-4 mr-2" />
+                    Draw area
+                  </Button>
+                  <Button
+                    variant={drawMode === 'circle' && drawTarget?.type === 'new' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => startDrawing('circle', { type: 'new' })}
+                  >
+                    <Circle className="h-4 w-4 mr-2" />
+                    Draw circle
+                  </Button>
+                </div>
+                {draftShape && <p className="text-sm text-muted-foreground">{describeShape(draftShape)}</p>}
+                <Button
+                  className="w-full"
+                  disabled={!draftShape || !newName.trim() || createZone.isPending}
+                  onClick={saveNewZone}
+                >
+                  {createZone.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Save zone
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Saved zones */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Shapes className="h-5 w-5 text-primary" />
+                  Your Zones
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {zonesQuery.isLoading ? (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : zones.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No watch zones yet</p>
+                ) : (
+                  zones.map((zone) => (
+                    <div
+                      key={zone._id}
+                      onClick={() => setSelectedId(zone._id)}
+                      className={`rounded-lg border p-3 space-y-2 cursor-pointer transition-colors ${
+                        zone._id === selectedId ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                      }`}
+                    >
+                      {renamingId === zone._id ? (
+                        <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                          <Input
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') saveRename();
+                              if (e.key === 'Escape') setRenamingId(null);
+                            }}
+                            className="h-8"
+                            autoFocus
+                          />
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={saveRename}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setRenamingId(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium truncate">{zone.name}</span>
+                          <Badge variant={hazardCounts[zone._id] ? 'destructive' : 'secondary'}>
+                            {hazardCounts[zone._id] ?? 0} hazard{hazardCounts[zone._id] === 1 ? '' : 's'}
+                          </Badge>
+                        </div>
+                      )}
+                      <p className="text-xs text-muted-foreground">{describeShape(zone.shape)}</p>
+                      <div className="flex gap-1" onClick={(e) => e.stopPropagation()}>
+                        <Button size="sm" variant="ghost" className="h-7" onClick={() => startRename(zone)}>
+                          <Pencil className="h-3 w-3 mr-1" />
+                          Rename
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7"
+                          onClick={() => {
+                            setSelectedId(zone._id);
+                            startDrawing(zone.shape.type, { type: 'redraw', zoneId: zone._id });
+                          }}
+                        >
+                          <Hexagon className="h-3 w-3 mr-1" />
+                          Redraw
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 text-destructive"
+                          onClick={() => removeZone(zone)}
+                        >
+                          <Trash2 className="h-3 w-3 mr-1" />
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Zones;